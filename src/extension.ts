@@ -1,16 +1,170 @@
+import * as childProcess from 'child_process';
+import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { findRedundantEntries, lintIgnoreLines, LintIssue, LintOptions, LintRuleId } from './linter';
+import {
+	checkIgnored,
+	escapeLiteralPath,
+	hasGlobSyntax,
+	IgnoreCheckResult,
+	IgnoreRule,
+	isPatternLine,
+	listIgnoredPaths,
+	parseIgnoreRules,
+	ruleMatches,
+	stripAnchorsAndSlashes
+} from './matcher';
+import { findStacksForMarker, STACK_MARKER_GLOB } from './stacks';
+import { BUNDLED_TEMPLATES, GitignoreTemplate } from './templates';
+import { planUnignore } from './unignore';
 
 const textEncoder = new TextEncoder();
 const textDecoder = new TextDecoder('utf-8');
 const DEFAULT_BASE_ENTRIES = ['.DS_Store'];
-const ROOT_GITIGNORE_CONTEXT = 'gitignoreAssistant.isRootGitignoreEditor';
+const IGNORE_FILE_EDITOR_CONTEXT = 'gitignoreAssistant.isIgnoreFileEditor';
+const MANAGED_BLOCK_START = '# >>> gitignore-assistant';
+const MANAGED_BLOCK_END = '# <<< gitignore-assistant';
+const PREVIEW_SCHEME = 'gitignore-assistant-preview';
+const FIX_ALL_KIND = vscode.CodeActionKind.SourceFixAll.append('gitignoreAssistant');
+// Existence checks are skipped for repositories with more visible files and folders than this
+const LINT_PATH_LIMIT = 20000;
+// Hovers and CodeLenses reuse an evaluation this long (ms), so files created meanwhile show up soon after
+const EVALUATION_TTL = 5000;
+// Number of tracked files listed when offering to untrack them
+const UNTRACK_DETAIL_LIMIT = 10;
+const UNTRACK_BATCH_SIZE = 200;
+const HOVER_SAMPLE_SIZE = 10;
 const outputChannel = vscode.window.createOutputChannel('GitIgnore Assistant');
+const decorationChangeEmitter = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+const lintDiagnostics = vscode.languages.createDiagnosticCollection('gitignore-assistant');
+const globalExcludesChangeEmitter = new vscode.EventEmitter<void>();
+// Repository ignore files; the global excludes file lives elsewhere and is matched by its resolved path
+const IGNORE_FILE_SELECTOR: vscode.DocumentFilter = { scheme: 'file', pattern: '**/{.gitignore,info/exclude}' };
+const LINT_SOURCE = 'GitIgnore Assistant';
+// Related information labels, also used to tell the two kinds of ineffective negation apart
+const OVERRIDING_RULE_LABEL = 'Overriding rule';
+const EXCLUDED_PARENT_LABEL = 'Rule excluding the parent folder';
+
+type IgnoreFileKind = 'gitignore' | 'exclude' | 'global';
+
+interface IgnoreFileTarget {
+	uri: vscode.Uri;
+	// Folder that entries are relative to, undefined for the global excludes file
+	baseUri?: vscode.Uri;
+	kind: IgnoreFileKind;
+}
 
 interface GitignoreState {
 	uri: vscode.Uri;
+	baseUri?: vscode.Uri;
+	kind: IgnoreFileKind;
 	lines: string[];
 	dirty: boolean;
+	// Base entries and added entries go inside the managed block
+	managed: boolean;
+}
+
+interface TrackedFileGroup {
+	repository: GitRepository;
+	workspaceName: string;
+	// Relative to the work tree
+	files: string[];
+}
+
+interface GitRepository {
+	workTreeUri: vscode.Uri;
+	gitDirUri: vscode.Uri;
+	commonDirUri: vscode.Uri;
+}
+
+interface IgnoreRuleContext {
+	rootUri: vscode.Uri;
+	relativePath: string;
+	isDirectory: boolean;
+	// Ordered from lowest to highest precedence; rule sources are ignore file URIs
+	rules: IgnoreRule[];
+}
+
+// Memoizes ignore file reads between file system changes
+interface IgnoreFileCache {
+	lines: Map<string, Promise<string[] | undefined>>;
+	repositories: Map<string, Promise<GitRepository | undefined>>;
+}
+
+const decorationCache: IgnoreFileCache = { lines: new Map(), repositories: new Map() };
+
+// Folder listings relative to a repository root
+type DirectoryListings = Map<string, Promise<[string, vscode.FileType][] | undefined>>;
+
+// Listings reused by the linter between keystrokes, keyed by repository root; its watcher evicts changed folders
+const directoryListingCache = new Map<string, DirectoryListings>();
+
+// Global excludes file keyed by the Git config files it is read from, cleared when one of them changes
+const globalExcludesCache = new Map<string, Promise<vscode.Uri>>();
+
+// Proposed contents and pending Apply/Discard decisions, keyed by preview URI
+const previewContents = new Map<string, string>();
+const pendingPreviews = new Map<string, (apply: boolean) => void>();
+let previewCounter = 0;
+
+interface IgnoreComparison {
+	// Paths Git sees under the ignore file folder, undefined when there are too many to list
+	paths: string[] | undefined;
+	ignoredBefore: Set<string>;
+	// Rules in effect with the given lines in place of the ignore file's own
+	toRules: (lines: string[]) => IgnoreRule[];
+}
+
+interface IgnoreFileEvaluation {
+	baseUri: vscode.Uri | undefined;
+	// Directory of the ignore file relative to the repository root
+	basePath: string;
+	ownRules: IgnoreRule[];
+	allRules: IgnoreRule[];
+	// Paths relative to the repository root, undefined when the workspace is too large or for the global excludes file
+	paths: { path: string; isDirectory: boolean }[] | undefined;
+	baseEntries: string[];
+}
+
+// Line evaluations for hovers and CodeLenses, keyed by document URI
+const evaluationCache = new Map<string, { version: number; createdAt: number; evaluation: Promise<IgnoreFileEvaluation | undefined> }>();
+
+type LintSeverity = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+const DEFAULT_LINT_SEVERITY: Record<LintRuleId, LintSeverity> = {
+	duplicate: 'warning',
+	normalizedDuplicate: 'warning',
+	missingPath: 'information',
+	unmatchedPattern: 'information',
+	ineffectiveNegation: 'warning',
+	redundantEntry: 'information',
+	trailingWhitespace: 'warning',
+	backslashSeparator: 'warning'
+};
+
+type SortMode = 'file' | 'sections' | 'sectionsByHeader';
+
+// Unignore removes or rewrites rules like remove, but reports paths re-included rather than entries removed
+type UpdateMode = 'add' | 'remove' | 'unignore';
+
+type GitignoreTargetSetting = 'auto' | 'ask' | 'nearest' | 'root';
+
+type GitignoreTargetChoice =
+	| { kind: 'nearest' }
+	| { kind: 'root' }
+	| { kind: 'folder'; folderUri: vscode.Uri }
+	| { kind: 'exclude' }
+	| { kind: 'global' };
+
+type PatternVariant = 'exactPath' | 'nameAnywhere' | 'extension' | 'extensionInFolder' | 'folderExceptFile';
+
+interface StackSuggestion {
+	uri: vscode.Uri;
+	workspace: vscode.WorkspaceFolder;
+	isDirectory: boolean;
+	stackLabel: string;
+	markerPath: string;
 }
 
 type OperationStatus = 'added' | 'removed' | 'skipped' | 'error';
@@ -47,6 +201,34 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	);
 
+	const addExcludeDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.addToLocalExclude',
+		async (resourceUri: vscode.Uri | undefined, resourceUris: vscode.Uri[] | undefined) => {
+			await handleGitignoreCommand(resourceUri, resourceUris, 'add', { kind: 'exclude' });
+		}
+	);
+
+	const removeExcludeDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.removeFromLocalExclude',
+		async (resourceUri: vscode.Uri | undefined, resourceUris: vscode.Uri[] | undefined) => {
+			await handleGitignoreCommand(resourceUri, resourceUris, 'remove', { kind: 'exclude' });
+		}
+	);
+
+	const addGlobalDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.addToGlobalExcludes',
+		async (resourceUri: vscode.Uri | undefined, resourceUris: vscode.Uri[] | undefined) => {
+			await handleGitignoreCommand(resourceUri, resourceUris, 'add', { kind: 'global' });
+		}
+	);
+
+	const removeGlobalDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.removeFromGlobalExcludes',
+		async (resourceUri: vscode.Uri | undefined, resourceUris: vscode.Uri[] | undefined) => {
+			await handleGitignoreCommand(resourceUri, resourceUris, 'remove', { kind: 'global' });
+		}
+	);
+
 	const cleanDisposable = vscode.commands.registerCommand(
 		'gitignore-assistant.cleanGitignore',
 		async (resourceUri: vscode.Uri | undefined) => {
@@ -54,15 +236,95 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	);
 
-	updateRootGitignoreContext(vscode.window.activeTextEditor);
+	const pruneDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.pruneStaleEntries',
+		async (resourceUri: vscode.Uri | undefined, entries: string[] | undefined) => {
+			await handlePruneStaleEntriesCommand(resourceUri, entries);
+		}
+	);
+
+	const explainDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.explainIgnored',
+		async (resourceUri: vscode.Uri | undefined) => {
+			await handleExplainIgnoredCommand(resourceUri);
+		}
+	);
+
+	const unignoreDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.unignore',
+		async (resourceUri: vscode.Uri | undefined) => {
+			await handleUnignoreCommand(resourceUri);
+		}
+	);
+
+	const insertTemplateDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.insertTemplate',
+		async (resourceUri: vscode.Uri | undefined, templateIds: string[] | undefined) => {
+			await handleInsertTemplateCommand(resourceUri, templateIds);
+		}
+	);
+
+	const suggestDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.suggestIgnoreRules',
+		async (options: { applyAll?: boolean } | undefined) => {
+			await handleSuggestIgnoreRulesCommand(options?.applyAll === true);
+		}
+	);
+
+	const patternVariants: Record<string, PatternVariant> = {
+		'gitignore-assistant.ignoreExactPath': 'exactPath',
+		'gitignore-assistant.ignoreNameAnywhere': 'nameAnywhere',
+		'gitignore-assistant.ignoreExtension': 'extension',
+		'gitignore-assistant.ignoreExtensionInFolder': 'extensionInFolder',
+		'gitignore-assistant.ignoreFolderExceptFile': 'folderExceptFile'
+	};
+	const patternDisposables = Object.entries(patternVariants).map(([command, variant]) =>
+		vscode.commands.registerCommand(
+			command,
+			async (resourceUri: vscode.Uri | undefined, resourceUris: vscode.Uri[] | undefined) => {
+				await handleIgnoreByPatternCommand(resourceUri, resourceUris, variant);
+			}
+		)
+	);
+
+	registerGitConfigWatcher(context);
+	registerIgnoreDecorations(context);
+	registerChangePreview(context);
+	registerIgnoreFileLinter(context);
+	registerIgnoreFileCodeActions(context);
+	registerIgnoreFileCompletion(context);
+	registerIgnoreFileLinks(context);
+	registerIgnoreFileInsights(context);
+
+	if (shouldSuggestOnStartup()) {
+		void suggestIgnoreRulesOnStartup();
+	}
+
+	void updateIgnoreFileEditorContext(vscode.window.activeTextEditor);
 	const activeEditorDisposable = vscode.window.onDidChangeActiveTextEditor((editor) => {
-		updateRootGitignoreContext(editor);
+		void updateIgnoreFileEditorContext(editor);
 	});
 	const documentCloseDisposable = vscode.workspace.onDidCloseTextDocument(() => {
-		updateRootGitignoreContext(vscode.window.activeTextEditor);
+		void updateIgnoreFileEditorContext(vscode.window.activeTextEditor);
 	});
 
-	context.subscriptions.push(addDisposable, removeDisposable, cleanDisposable, activeEditorDisposable, documentCloseDisposable);
+	context.subscriptions.push(
+		addDisposable,
+		removeDisposable,
+		addExcludeDisposable,
+		removeExcludeDisposable,
+		addGlobalDisposable,
+		removeGlobalDisposable,
+		cleanDisposable,
+		pruneDisposable,
+		explainDisposable,
+		unignoreDisposable,
+		insertTemplateDisposable,
+		suggestDisposable,
+		...patternDisposables,
+		activeEditorDisposable,
+		documentCloseDisposable
+	);
 }
 
 export function deactivate() {}
@@ -70,9 +332,13 @@ export function deactivate() {}
 async function handleGitignoreCommand(
 	resourceUri: vscode.Uri | undefined,
 	resourceUris: vscode.Uri[] | undefined,
-	mode: 'add' | 'remove'
+	mode: 'add' | 'remove',
+	choice?: GitignoreTargetChoice
 ): Promise<void> {
-	const label = mode === 'add' ? 'Add to .gitignore' : 'Remove from .gitignore';
+	const fileLabel = choice?.kind === 'exclude'
+		? 'local exclude'
+		: choice?.kind === 'global' ? 'global excludes' : '.gitignore';
+	const label = mode === 'add' ? `Add to ${fileLabel}` : `Remove from ${fileLabel}`;
 	let targets = resourceUris?.length ? resourceUris : resourceUri ? [resourceUri] : [];
 	targets = dedupeUris(targets.filter((uri) => uri.scheme === 'file'));
 
@@ -101,40 +367,33 @@ async function handleGitignoreCommand(
 	await performGitignoreUpdate(
 		targets,
 		mode,
-		mode === 'add' ? addGitignoreEntry : removeGitignoreEntry
+		mode === 'add' ? addGitignoreEntry : removeGitignoreEntry,
+		choice
 	);
 }
 
 async function handleCleanGitignoreCommand(resourceUri?: vscode.Uri): Promise<void> {
 	let workspace: vscode.WorkspaceFolder | undefined;
-	let gitignoreUri: vscode.Uri;
+	let target: IgnoreFileTarget;
 
 	if (resourceUri) {
-		workspace = vscode.workspace.getWorkspaceFolder(resourceUri);
-		if (!workspace) {
-			const message = 'Clean .gitignore is only available for files inside an open workspace folder.';
-			if (shouldShowNotifications()) {
-				vscode.window.showWarningMessage(message);
-			}
-			outputChannel.appendLine(`WARNING: ${message}`);
-			return;
-		}
-		const relative = path.relative(workspace.uri.fsPath, resourceUri.fsPath);
-		if (relative !== '.gitignore') {
-			const message = 'Clean .gitignore can only be run on the workspace root .gitignore file.';
+		const resolved = await resolveIgnoreFileForResource(resourceUri);
+		if (!resolved) {
+			const message = 'Clean .gitignore can only be run on a .gitignore, .git/info/exclude, or global excludes file while a workspace folder is open.';
 			if (shouldShowNotifications()) {
 				vscode.window.showWarningMessage(message);
 			}
 			outputChannel.appendLine(`WARNING: ${message}`);
 			return;
 		}
-		gitignoreUri = resourceUri;
+		({ workspace, target } = resolved);
 	} else {
 		workspace = await pickWorkspaceFolder();
 		if (!workspace) {
 			return;
 		}
-		gitignoreUri = vscode.Uri.joinPath(workspace.uri, '.gitignore');
+		const gitignoreUri = vscode.Uri.joinPath(workspace.uri, '.gitignore');
+		target = { uri: gitignoreUri, baseUri: workspace.uri, kind: 'gitignore' };
 	}
 
 	if (!workspace) {
@@ -143,11 +402,10 @@ async function handleCleanGitignoreCommand(resourceUri?: vscode.Uri): Promise<vo
 	let content: string;
 
 	try {
-		const buffer = await vscode.workspace.fs.readFile(gitignoreUri);
-		content = textDecoder.decode(buffer);
+		content = await readIgnoreFileContent(target.uri);
 	} catch (error) {
 		if (isFileNotFound(error)) {
-			const message = `.gitignore not found in workspace "${workspaceLabel(workspace)}".`;
+			const message = `${ignoreFileLabel(target.kind)} not found in workspace "${workspaceLabel(workspace)}".`;
 			if (shouldShowNotifications()) {
 				vscode.window.showWarningMessage(message);
 			}
@@ -162,22 +420,65 @@ async function handleCleanGitignoreCommand(resourceUri?: vscode.Uri): Promise<vo
 	const removeEmptyLines = shouldRemoveEmptyLines(workspace);
 	const removeComments = shouldRemoveComments(workspace);
 	const trailingSlash = shouldUseTrailingSlashForFolders(workspace);
-	const baseEntries = getBaseEntries(workspace);
-	const result = await cleanGitignoreEntries(
-		originalLines,
-		{
-			sort: sortEntries,
-			removeEmptyLines,
-			removeComments,
-			trailingSlashForFolders: trailingSlash,
-			workspace
-		},
-		baseEntries
-	);
+	const baseEntries = getBaseEntriesForTarget(target, workspace);
+	const clean = shouldUseManagedBlock(workspace) ? cleanManagedBlock : cleanGitignoreEntries;
+	const sortMode = getSortMode(workspace);
+	const cleanOptions: Parameters<typeof cleanGitignoreEntries>[1] = {
+		sort: sortEntries,
+		sortMode,
+		removeEmptyLines,
+		removeComments,
+		removeRedundant: shouldRemoveRedundantEntries(workspace),
+		trailingSlashForFolders: trailingSlash,
+		baseUri: target.baseUri
+	};
+	let result = await clean(originalLines, cleanOptions, baseEntries);
+	const comparison = arraysEqual(originalLines, result.lines) ? undefined : await loadIgnoreComparison(target, workspace, originalLines);
+	if (comparison && !comparison.paths) {
+		const message = `Workspace "${workspaceLabel(workspace)}" has too many files to check that cleaning ${ignoreFileLabel(target.kind)} keeps the same paths ignored.`;
+		outputChannel.appendLine(`WARNING: ${message}`);
+		const choice = await vscode.window.showWarningMessage(message, { modal: true }, 'Clean Anyway');
+		if (choice !== 'Clean Anyway') {
+			outputChannel.appendLine(`INFO: Cancelled cleaning of ${ignoreFileLabel(target.kind)}.`);
+			return;
+		}
+	}
+	const findChanges = (lines: string[]) => (comparison ? findChangedIgnoredPaths(comparison, lines) : []);
+	let changedPaths = findChanges(result.lines);
+
+	// Sorting across negations is the usual cause, so sort within sections, then not at all, before giving up
+	const fallbacks: { sortFallback: 'sections' | 'unsorted'; options: Partial<typeof cleanOptions> }[] = [];
+	if (sortEntries && sortMode === 'file') {
+		fallbacks.push({ sortFallback: 'sections', options: { sortMode: 'sections' } });
+	}
+	if (sortEntries) {
+		fallbacks.push({ sortFallback: 'unsorted', options: { sort: false } });
+	}
+	for (const fallback of fallbacks) {
+		if (!changedPaths.length) {
+			break;
+		}
+		const retry = await clean(originalLines, { ...cleanOptions, ...fallback.options }, baseEntries);
+		const retryChangedPaths = findChanges(retry.lines);
+		if (!retryChangedPaths.length) {
+			result = { ...retry, sortFallback: fallback.sortFallback };
+			changedPaths = retryChangedPaths;
+		}
+	}
+	if (changedPaths.length) {
+		presentCleaningSummary(target, { ...result, changedPaths });
+		return;
+	}
+
+	result.redundantEntries.forEach(({ entry, coveredBy }) => {
+		const action = result.redundantRemoved ? 'Removing' : 'Keeping';
+		outputChannel.appendLine(`INFO: ${action} redundant entry "${entry}", already ignored by "${coveredBy}".`);
+	});
+
 	const changed = !arraysEqual(originalLines, result.lines);
 
 	if (!changed) {
-		const message = `.gitignore is already clean.`;
+		const message = `${ignoreFileLabel(target.kind)} is already clean.`;
 		if (shouldShowNotifications()) {
 			vscode.window.showInformationMessage(message);
 		}
@@ -185,358 +486,3145 @@ async function handleCleanGitignoreCommand(resourceUri?: vscode.Uri): Promise<vo
 		return;
 	}
 
-	const serialized = serializeLines(result.lines);
-	await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(serialized));
-	presentCleaningSummary(workspace, result);
+	if (shouldPreviewChanges(workspace)) {
+		const changes = describeCleaningResult(result);
+		const title = `Clean ${ignoreFileLabel(target.kind)}${changes.length ? `: ${formatSummaryList(changes)}` : ''}`;
+		if (!(await confirmWithPreview(target.uri, result.lines, title))) {
+			outputChannel.appendLine(`INFO: Discarded cleaning of ${ignoreFileLabel(target.kind)}.`);
+			return;
+		}
+	}
+
+	await writeIgnoreFile(target.uri, result.lines);
+	refreshIgnoreDecorations();
+	presentCleaningSummary(target, result);
 }
 
-async function pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
-	const folders = vscode.workspace.workspaceFolders;
-	if (!folders || folders.length === 0) {
-		const message = 'Open a workspace folder to clean its .gitignore file.';
+async function handlePruneStaleEntriesCommand(resourceUri?: vscode.Uri, selectedEntries?: string[]): Promise<void> {
+	const activeDocument = vscode.window.activeTextEditor?.document;
+	const documentUri = resourceUri ?? (isIgnoreFileDocument(activeDocument) ? activeDocument?.uri : undefined);
+	let workspace: vscode.WorkspaceFolder | undefined;
+	let target: IgnoreFileTarget | undefined;
+
+	if (documentUri) {
+		({ workspace, target } = (await resolveIgnoreFileForResource(documentUri)) ?? {});
+	} else {
+		workspace = await pickWorkspaceFolder('Select a workspace to remove stale entries from its .gitignore');
+		if (workspace) {
+			target = { uri: vscode.Uri.joinPath(workspace.uri, '.gitignore'), baseUri: workspace.uri, kind: 'gitignore' };
+		}
+	}
+	// Entries of the global excludes file are not tied to a folder, so they cannot be stale
+	if (!workspace || !target?.baseUri) {
+		if (documentUri) {
+			const message = 'Stale entries can only be removed from a .gitignore or .git/info/exclude file.';
+			if (shouldShowNotifications()) {
+				vscode.window.showWarningMessage(message);
+			}
+			outputChannel.appendLine(`WARNING: ${message}`);
+		}
+		return;
+	}
+
+	const originalLines = await readIgnoreFileLines(target.uri);
+	if (!originalLines) {
+		const message = `${ignoreFileLabel(target.kind)} not found in workspace "${workspaceLabel(workspace)}".`;
 		if (shouldShowNotifications()) {
 			vscode.window.showWarningMessage(message);
 		}
 		outputChannel.appendLine(`WARNING: ${message}`);
-		return undefined;
+		return;
 	}
-	if (folders.length === 1) {
-		return folders[0];
+
+	const stale = await findStaleEntries(originalLines, target.baseUri, getBaseEntriesForTarget(target, workspace));
+	if (!stale.length) {
+		const message = `${ignoreFileLabel(target.kind)} has no entries pointing at missing paths.`;
+		if (shouldShowNotifications()) {
+			vscode.window.showInformationMessage(message);
+		}
+		outputChannel.appendLine(`INFO: ${message}`);
+		return;
 	}
-	return vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select a workspace to clean its .gitignore' });
-}
 
-interface CleanGitignoreResult {
-	lines: string[];
-	duplicatesRemoved: number;
-	emptyLinesRemoved: number;
-	sortedApplied: boolean;
-	baseEntriesAdded: boolean;
-	commentsRemoved: number;
+	let selected: typeof stale;
+	if (selectedEntries) {
+		selected = stale.filter((candidate) => selectedEntries.includes(candidate.entry));
+	} else {
+		const picks = await vscode.window.showQuickPick(
+			stale.map((candidate) => ({ label: candidate.entry, description: `line ${candidate.line + 1}`, picked: true, candidate })),
+			{
+				canPickMany: true,
+				placeHolder: `Select entries to remove from ${ignoreFileLabel(target.kind)}: these paths no longer exist`
+			}
+		);
+		selected = picks?.map((pick) => pick.candidate) ?? [];
+	}
+	if (!selected.length) {
+		return;
+	}
+
+	const removedLines = new Set(selected.map((candidate) => candidate.line));
+	const lines = originalLines.filter((_, index) => !removedLines.has(index));
+	if (shouldPreviewChanges(workspace)) {
+		const title = `Remove ${selected.length} stale ${pluralizeEntry(selected.length)} from ${ignoreFileLabel(target.kind)}`;
+		if (!(await confirmWithPreview(target.uri, lines, title))) {
+			outputChannel.appendLine(`INFO: Discarded removal of stale entries from ${ignoreFileLabel(target.kind)}.`);
+			return;
+		}
+	}
+
+	await writeIgnoreFile(target.uri, lines);
+	refreshIgnoreDecorations();
+	const message = `Removed ${selected.length} stale ${pluralizeEntry(selected.length)} from ${ignoreFileLabel(target.kind)}.`;
+	if (shouldShowNotifications()) {
+		vscode.window.showInformationMessage(message);
+	}
+	outputChannel.appendLine(`INFO: ${message}`);
+	selected.forEach((candidate) => outputChannel.appendLine(`INFO: Removed stale entry "${candidate.entry}"`));
 }
 
-async function cleanGitignoreEntries(
+// Anchored literal entries whose path is missing from the working tree.
+// Base entries and entries in a section headed by a "# keep" comment are never reported.
+async function findStaleEntries(
 	lines: string[],
-	options: {
-		sort: boolean;
-		removeEmptyLines: boolean;
-		removeComments: boolean;
-		trailingSlashForFolders: boolean;
-		workspace?: vscode.WorkspaceFolder;
-	},
+	baseUri: vscode.Uri,
 	baseEntries: string[]
-): Promise<CleanGitignoreResult> {
-	const trimmed = lines.map((line) => line.trim());
-	const isComment = (line: string) => line.startsWith('#');
-	const isEmpty = (line: string) => line === '';
+): Promise<{ line: number; entry: string }[]> {
+	const kept = new Set<number>();
+	for (const section of findIgnoreSections(lines)) {
+		if (lines.slice(section.header, section.start).some((line) => /^#\s*keep\b/i.test(line.trim()))) {
+			for (let index = section.start; index <= section.end; index += 1) {
+				kept.add(index);
+			}
+		}
+	}
 
-	const originalEmptyCount = trimmed.filter(isEmpty).length;
-	const originalCommentCount = trimmed.filter(isComment).length;
+	const baseKeys = new Set(baseEntries.map(stripAnchorsAndSlashes));
+	const candidates = parseIgnoreRules(lines, { source: 'stale' })
+		.filter((rule) => rule.anchored && !rule.negated && !hasGlobSyntax(rule.pattern) && !kept.has(rule.line - 1))
+		.map((rule) => ({ line: rule.line - 1, entry: rule.pattern, key: stripAnchorsAndSlashes(rule.pattern) }))
+		.filter((candidate) => !baseKeys.has(candidate.key));
+	if (!candidates.length) {
+		return [];
+	}
 
-	const keptLines = trimmed.filter((line) => {
-		if (options.removeEmptyLines && isEmpty(line)) {
-			return false;
+	const detections = await detectDirectoriesForKeys(new Set(candidates.map((candidate) => candidate.key)), baseUri);
+	return candidates
+		.filter((candidate) => detections.get(candidate.key) === undefined)
+		.map(({ line, entry }) => ({ line, entry }));
+}
+
+async function resolveIgnoreFileForResource(
+	resourceUri: vscode.Uri
+): Promise<{ workspace: vscode.WorkspaceFolder; target: IgnoreFileTarget } | undefined> {
+	if (path.basename(resourceUri.fsPath) === '.gitignore') {
+		const workspace = vscode.workspace.getWorkspaceFolder(resourceUri);
+		if (!workspace) {
+			return undefined;
 		}
-		if (options.removeComments && isComment(line)) {
-			return false;
+		const baseUri = vscode.Uri.joinPath(resourceUri, '..');
+		return { workspace, target: { uri: resourceUri, baseUri, kind: 'gitignore' } };
+	}
+
+	// The exclude file may live outside the workspace (e.g. in a worktree's common directory)
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	for (const workspace of folders) {
+		const repository = await findGitRepository(workspace.uri);
+		if (repository && getLocalExcludeUri(repository).fsPath === resourceUri.fsPath) {
+			return { workspace, target: { uri: resourceUri, baseUri: repository.workTreeUri, kind: 'exclude' } };
 		}
-		return true;
-	});
+	}
 
-	type EntryMeta = { hasFolderSyntax: boolean; existsAsDirectory?: boolean };
-	const metaByKey = new Map<string, EntryMeta>();
-	const toKey = (line: string) => stripAnchorsAndSlashes(line);
+	const globalUri = await getGlobalExcludesFile();
+	const workspace = vscode.workspace.getWorkspaceFolder(resourceUri) ?? folders[0];
+	if (workspace && globalUri.fsPath === resourceUri.fsPath) {
+		return { workspace, target: { uri: resourceUri, kind: 'global' } };
+	}
+	return undefined;
+}
 
-	const keysToDetect = new Set<string>();
-	for (const line of keptLines) {
-		if (isEmpty(line) || isComment(line) || isPatternLine(line)) {
-			continue;
-		}
-		const key = toKey(line);
-		const current = metaByKey.get(key) ?? { hasFolderSyntax: false };
-		if (line.endsWith('/')) {
-			current.hasFolderSyntax = true;
+async function handleExplainIgnoredCommand(resourceUri?: vscode.Uri): Promise<void> {
+	let target = resourceUri?.scheme === 'file' ? resourceUri : undefined;
+	if (!target) {
+		const picks = await vscode.window.showOpenDialog({
+			canSelectFiles: true,
+			canSelectFolders: true,
+			canSelectMany: false,
+			openLabel: 'Explain'
+		});
+		if (!picks || !picks.length) {
+			return;
 		}
-		metaByKey.set(key, current);
-		// Always detect to distinguish real directories from symlinks
-		if (options.workspace) {
-			keysToDetect.add(key);
+		target = picks[0];
+	}
+
+	const workspace = vscode.workspace.getWorkspaceFolder(target);
+	if (!workspace) {
+		const message = 'Select a file or folder inside an open workspace folder.';
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage(message);
 		}
+		outputChannel.appendLine(`WARNING: ${message}`);
+		return;
 	}
 
-	if (options.workspace && keysToDetect.size) {
-		const detections = await detectDirectoriesForKeys(keysToDetect, options.workspace);
-		for (const [key, isDir] of detections) {
-			const meta = metaByKey.get(key);
-			if (meta) {
-				meta.existsAsDirectory = isDir;
-			}
+	let ruleContext: IgnoreRuleContext;
+	try {
+		ruleContext = await loadIgnoreRulesForTarget(target, workspace);
+	} catch (error) {
+		const message = toErrorMessage(error);
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage(message);
 		}
+		outputChannel.appendLine(`WARNING: ${message}`);
+		return;
 	}
 
-	const normalized: string[] = [];
-	const seenEntryKeys = new Set<string>();
-	const seenPatternKeys = new Set<string>();
-	const firstVariantByKey = new Map<string, { trailingSlash: boolean; anchored: boolean }>();
-	let duplicatesRemoved = 0;
+	const result = checkIgnored(ruleContext.rules, ruleContext.relativePath, ruleContext.isDirectory);
+	const message = describeIgnoreResult(ruleContext, result);
+	outputChannel.appendLine(`INFO: ${message}`);
 
-	for (const line of keptLines) {
-		if (isEmpty(line)) {
-			normalized.push('');
-			continue;
-		}
-		if (isComment(line)) {
-			normalized.push(line);
-			continue;
-		}
-		if (isPatternLine(line)) {
-			if (seenPatternKeys.has(line)) {
-				duplicatesRemoved += 1;
-				continue;
-			}
-			seenPatternKeys.add(line);
-			normalized.push(line);
-			continue;
-		}
+	if (result.rule) {
+		// Same format as `git check-ignore -v`
+		outputChannel.appendLine(`${formatRuleLocation(result.rule)}\t${ruleContext.relativePath}`);
+		await revealIgnoreRule(result.rule);
+	}
+	// The explanation is the result of the command, so it is shown regardless of showNotifications
+	void vscode.window.showInformationMessage(message);
+}
 
-		const key = toKey(line);
-		const variant = { trailingSlash: line.endsWith('/'), anchored: line.startsWith('/') };
-		if (seenEntryKeys.has(key)) {
-			const first = firstVariantByKey.get(key);
-			const onlyTrailingSlashDiff =
-				!!first && first.trailingSlash !== variant.trailingSlash && options.trailingSlashForFolders === false;
-			if (!onlyTrailingSlashDiff) {
-				duplicatesRemoved += 1;
-			}
-			continue;
+async function handleUnignoreCommand(resourceUri?: vscode.Uri): Promise<void> {
+	let target = resourceUri?.scheme === 'file' ? resourceUri : undefined;
+	if (!target) {
+		const picks = await vscode.window.showOpenDialog({
+			canSelectFiles: true,
+			canSelectFolders: true,
+			canSelectMany: false,
+			openLabel: 'Unignore'
+		});
+		if (!picks || !picks.length) {
+			return;
 		}
+		target = picks[0];
+	}
 
-		const meta = metaByKey.get(key);
-		// Prioritize filesystem check: if explicitly false (like symlinks), treat as file
-		const isFolderForKey = meta?.existsAsDirectory === true ||
-		                       (meta?.existsAsDirectory === undefined && !!meta?.hasFolderSyntax);
-		firstVariantByKey.set(key, variant);
-		seenEntryKeys.add(key);
+	const workspace = vscode.workspace.getWorkspaceFolder(target);
+	let result: IgnoreCheckResult | undefined;
+	let ruleContext: IgnoreRuleContext | undefined;
+	try {
+		ruleContext = workspace ? await loadIgnoreRulesForTarget(target, workspace) : undefined;
+		result = ruleContext && checkIgnored(ruleContext.rules, ruleContext.relativePath, ruleContext.isDirectory);
+	} catch (error) {
+		outputChannel.appendLine(`WARNING: ${toErrorMessage(error)}`);
+	}
+	if (!workspace || !ruleContext || !result?.ignored || !result.rule) {
+		const message = !workspace
+			? 'Select a file or folder inside an open workspace folder.'
+			: ruleContext && result ? describeIgnoreResult(ruleContext, result) : 'Unable to evaluate the ignore rules for this path.';
+		if (shouldShowNotifications()) {
+			vscode.window.showInformationMessage(message);
+		}
+		outputChannel.appendLine(`INFO: ${message}`);
+		return;
+	}
 
-		const canonical = buildCanonicalFromKey(key, isFolderForKey, variant, options);
-		normalized.push(canonical);
+	// Negations are written next to the rule they override; rules from the global excludes file are overridden from the root .gitignore
+	const ruleUri = vscode.Uri.parse(result.rule.source);
+	let choice: GitignoreTargetChoice = { kind: 'root' };
+	if (path.basename(ruleUri.fsPath) === '.gitignore') {
+		choice = { kind: 'folder', folderUri: vscode.Uri.joinPath(ruleUri, '..') };
+	} else {
+		const repository = await findGitRepository(vscode.Uri.file(path.dirname(target.fsPath)));
+		if (repository && getLocalExcludeUri(repository).fsPath === ruleUri.fsPath) {
+			choice = { kind: 'exclude' };
+		}
 	}
 
-	const commentsRemoved = options.removeComments ? originalCommentCount : 0;
-	const emptyLinesRemoved = options.removeEmptyLines ? originalEmptyCount : 0;
+	await performGitignoreUpdate([target], 'unignore', unignoreEntry, choice);
+}
 
-	const baseApplied = [...normalized];
-	const baseEntriesAdded = enforceBaseEntries(baseApplied, baseEntries);
+// Re-includes the target with the smallest change, checked against every ignore file of the repository
+async function unignoreEntry(state: GitignoreState, target: vscode.Uri, workspace: vscode.WorkspaceFolder): Promise<OperationResult> {
+	const workspaceName = workspaceLabel(workspace);
+	const ruleContext = await loadIgnoreRulesForTarget(target, workspace, state);
+	const { lowerPrecedenceRules, higherPrecedenceRules } = splitRulesByPrecedence(ruleContext.rules, state.uri);
+	const basePath = state.baseUri
+		? path.relative(ruleContext.rootUri.fsPath, state.baseUri.fsPath).split(path.sep).join('/')
+		: '';
+	const plan = planUnignore(state.lines, ruleContext.relativePath, ruleContext.isDirectory, {
+		source: state.uri.toString(),
+		basePath,
+		lowerPrecedenceRules,
+		higherPrecedenceRules
+	});
+	if (!plan.ok) {
+		return { entry: ruleContext.relativePath, status: 'skipped', workspaceName, detail: plan.reason };
+	}
+	if (await isTargetIgnoredWithLines(target, workspace, state, plan.lines)) {
+		return { entry: ruleContext.relativePath, status: 'skipped', workspaceName, detail: 'The path would still be ignored by another rule.' };
+	}
 
-	let finalLines = baseApplied;
-	let sortedApplied = false;
-	if (options.sort) {
-		const sorted = [...baseApplied].sort((left, right) => left.localeCompare(right));
-		sortedApplied = !arraysEqual(baseApplied, sorted);
-		finalLines = sorted;
+	state.lines = plan.lines;
+	state.dirty = true;
+	const changes = plan.changes.map((change) => {
+		if (change.action === 'rewrite') {
+			return `"${change.previous}" rewritten to "${change.entry}"`;
+		}
+		return change.action === 'remove' ? `"${change.entry}" removed` : `"${change.entry}" added`;
+	});
+	return { entry: formatSummaryList(changes), status: 'removed', workspaceName };
+}
+
+async function loadIgnoreRulesForTarget(
+	target: vscode.Uri,
+	workspace: vscode.WorkspaceFolder,
+	override?: GitignoreState,
+	cache?: IgnoreFileCache
+): Promise<IgnoreRuleContext> {
+	const startDirectory = path.dirname(target.fsPath);
+	const repository = await memoize(cache?.repositories, startDirectory, () => findGitRepository(vscode.Uri.file(startDirectory)));
+	const rootUri = repository && isPathInside(target.fsPath, repository.workTreeUri.fsPath)
+		? repository.workTreeUri
+		: workspace.uri;
+	const relativePath = path.relative(rootUri.fsPath, target.fsPath).split(path.sep).join('/');
+	if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+		throw new Error('Select a file or folder inside the repository, not the repository root.');
 	}
 
-	const preparedLines = options.removeEmptyLines
-		? cleanupLines(finalLines, { collapseEmpty: true, trimTrailing: true })
-		: [...finalLines];
+	let isDirectory = false;
+	try {
+		isDirectory = isRealDirectory(await vscode.workspace.fs.stat(target));
+	} catch {
+		// Missing paths are evaluated as files
+	}
+
+	// Lowest precedence first: global excludes, info/exclude, then .gitignore files from the root down
+	const globalUri = await getGlobalExcludesFile();
+	const sources: { uri: vscode.Uri; basePath: string }[] = [{ uri: globalUri, basePath: '' }];
+	if (repository) {
+		sources.push({ uri: getLocalExcludeUri(repository), basePath: '' });
+	}
+	const segments = relativePath.split('/');
+	for (let depth = 0; depth < segments.length; depth += 1) {
+		const directory = segments.slice(0, depth);
+		sources.push({ uri: vscode.Uri.joinPath(rootUri, ...directory, '.gitignore'), basePath: directory.join('/') });
+	}
+
+	const rules: IgnoreRule[] = [];
+	for (const source of sources) {
+		const lines = override && override.uri.fsPath === source.uri.fsPath
+			? override.lines
+			: await memoize(cache?.lines, source.uri.fsPath, () => readIgnoreFileLines(source.uri));
+		if (lines) {
+			rules.push(...parseIgnoreRules(lines, { source: source.uri.toString(), basePath: source.basePath }));
+		}
+	}
+
+	return { rootUri, relativePath, isDirectory, rules };
+}
+
+function memoize<T>(map: Map<string, Promise<T>> | undefined, key: string, load: () => Promise<T>): Promise<T> {
+	if (!map) {
+		return load();
+	}
+	let pending = map.get(key);
+	if (!pending) {
+		pending = load();
+		map.set(key, pending);
+	}
+	return pending;
+}
+
+function registerIgnoreDecorations(context: vscode.ExtensionContext): void {
+	const provider: vscode.FileDecorationProvider = {
+		onDidChangeFileDecorations: decorationChangeEmitter.event,
+		provideFileDecoration: provideIgnoreDecoration
+	};
+
+	const watchIgnoreFiles = (watcher: vscode.FileSystemWatcher) => vscode.Disposable.from(
+		watcher,
+		watcher.onDidChange(refreshIgnoreDecorations),
+		watcher.onDidCreate(refreshIgnoreDecorations),
+		watcher.onDidDelete(refreshIgnoreDecorations)
+	);
+	const watchIgnoreFile = (uri: vscode.Uri) => {
+		// The exclude and global files may live outside the workspace
+		const pattern = new vscode.RelativePattern(vscode.Uri.joinPath(uri, '..'), path.basename(uri.fsPath));
+		return watchIgnoreFiles(vscode.workspace.createFileSystemWatcher(pattern));
+	};
+
+	let globalWatcher: vscode.Disposable | undefined;
+	let globalUri: vscode.Uri | undefined;
+	const watchGlobalFile = async () => {
+		globalUri = await getGlobalExcludesFile();
+		globalWatcher?.dispose();
+		globalWatcher = watchIgnoreFile(globalUri);
+	};
+	// Keyed by exclude file, since several workspace folders may share a repository
+	const excludeWatchers = new Map<string, vscode.Disposable>();
+	const watchExcludeFiles = async () => {
+		const excludeUris = new Map<string, vscode.Uri>();
+		for (const workspace of vscode.workspace.workspaceFolders ?? []) {
+			const repository = await findGitRepository(workspace.uri);
+			if (repository) {
+				const excludeUri = getLocalExcludeUri(repository);
+				excludeUris.set(excludeUri.toString(), excludeUri);
+			}
+		}
+		for (const [key, watcher] of excludeWatchers) {
+			if (!excludeUris.has(key)) {
+				watcher.dispose();
+				excludeWatchers.delete(key);
+			}
+		}
+		for (const [key, excludeUri] of excludeUris) {
+			if (!excludeWatchers.has(key)) {
+				excludeWatchers.set(key, watchIgnoreFile(excludeUri));
+			}
+		}
+	};
+	void watchGlobalFile();
+	void watchExcludeFiles();
+
+	// Decorations read unsaved ignore files, so edits refresh them too, debounced while typing
+	let pendingRefresh: ReturnType<typeof setTimeout> | undefined;
+	const scheduleRefresh = () => {
+		clearTimeout(pendingRefresh);
+		pendingRefresh = setTimeout(() => {
+			pendingRefresh = undefined;
+			refreshIgnoreDecorations();
+		}, 300);
+	};
+
+	context.subscriptions.push(
+		decorationChangeEmitter,
+		watchIgnoreFiles(vscode.workspace.createFileSystemWatcher('**/.gitignore')),
+		{
+			dispose: () => {
+				globalWatcher?.dispose();
+				excludeWatchers.forEach((watcher) => watcher.dispose());
+				clearTimeout(pendingRefresh);
+			}
+		},
+		vscode.workspace.onDidChangeTextDocument((event) => {
+			const isGlobalFile = !!globalUri && event.document.uri.toString() === globalUri.toString();
+			if (event.contentChanges.length && (isIgnoreFileDocument(event.document) || isGlobalFile)) {
+				scheduleRefresh();
+			}
+		}),
+		globalExcludesChangeEmitter.event(() => void watchGlobalFile()),
+		vscode.workspace.onDidChangeWorkspaceFolders(() => {
+			void watchExcludeFiles();
+			refreshIgnoreDecorations();
+		}),
+		vscode.window.registerFileDecorationProvider(provider),
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration('gitignoreAssistant')) {
+				refreshIgnoreDecorations();
+			}
+		})
+	);
+}
 
+// Exported for tests, since VS Code offers no way to read the decorations of a file
+export async function provideIgnoreDecoration(uri: vscode.Uri): Promise<vscode.FileDecoration | undefined> {
+	if (uri.scheme !== 'file') {
+		return undefined;
+	}
+	const workspace = vscode.workspace.getWorkspaceFolder(uri);
+	if (!workspace || !shouldShowDecorations(workspace) || path.basename(uri.fsPath) === '.git') {
+		return undefined;
+	}
+
+	let ruleContext: IgnoreRuleContext;
+	try {
+		ruleContext = await loadIgnoreRulesForTarget(uri, workspace, undefined, decorationCache);
+	} catch {
+		return undefined;
+	}
+	const result = checkIgnored(ruleContext.rules, ruleContext.relativePath, ruleContext.isDirectory);
+	if (!result.ignored || !result.rule) {
+		return undefined;
+	}
+
+	const isBaseEntry = isBaseEntryRule(result.rule, workspace);
+	const via = result.excludedParent ? ` (inside "${result.excludedParent}/")` : '';
+	const suffix = isBaseEntry ? ', a base entry' : '';
 	return {
-		lines: preparedLines,
-		duplicatesRemoved,
-		emptyLinesRemoved,
-		sortedApplied,
-		baseEntriesAdded,
-		commentsRemoved
+		badge: isBaseEntry ? 'B' : 'I',
+		tooltip: `Ignored by ${formatRuleLocation(result.rule)}${via}${suffix}`,
+		color: new vscode.ThemeColor('gitDecoration.ignoredResourceForeground')
 	};
 }
 
-function updateRootGitignoreContext(editor: vscode.TextEditor | undefined | null): void {
-	const isRoot = editor ? isRootGitignoreDocument(editor.document) : false;
-	void vscode.commands.executeCommand('setContext', ROOT_GITIGNORE_CONTEXT, isRoot);
+function registerChangePreview(context: vscode.ExtensionContext): void {
+	const provider: vscode.TextDocumentContentProvider = {
+		provideTextDocumentContent: (uri) => previewContents.get(uri.toString()) ?? ''
+	};
+
+	const resolvePreview = (uri: vscode.Uri | undefined, apply: boolean) => {
+		const previewUri = uri?.scheme === PREVIEW_SCHEME ? uri : vscode.window.activeTextEditor?.document.uri;
+		const resolve = previewUri && pendingPreviews.get(previewUri.toString());
+		if (resolve) {
+			resolve(apply);
+		}
+	};
+
+	context.subscriptions.push(
+		vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, provider),
+		vscode.commands.registerCommand('gitignore-assistant.applyPreview', (uri?: vscode.Uri) => resolvePreview(uri, true)),
+		vscode.commands.registerCommand('gitignore-assistant.discardPreview', (uri?: vscode.Uri) => resolvePreview(uri, false)),
+		// Closing the preview without choosing discards the changes
+		vscode.window.tabGroups.onDidChangeTabs((event) => {
+			for (const tab of event.closed) {
+				if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === PREVIEW_SCHEME) {
+					pendingPreviews.get(tab.input.modified.toString())?.(false);
+				}
+			}
+		})
+	);
 }
 
-function isRootGitignoreDocument(document: vscode.TextDocument | undefined): boolean {
-	if (!document || document.uri.scheme !== 'file') {
-		return false;
+// Opens a diff between the ignore file and the proposed lines, resolving once Apply or Discard is chosen
+async function confirmWithPreview(uri: vscode.Uri, proposedLines: string[], title: string): Promise<boolean> {
+	previewCounter += 1;
+	const previewUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: uri.path, query: String(previewCounter) });
+	const key = previewUri.toString();
+	previewContents.set(key, serializeLines(proposedLines));
+
+	const decision = new Promise<boolean>((resolve) => {
+		pendingPreviews.set(key, resolve);
+	});
+	const originalUri = (await isExistingFile(uri)) ? uri : previewUri.with({ query: `${previewCounter}-empty` });
+	await vscode.commands.executeCommand('vscode.diff', originalUri, previewUri, `${path.basename(uri.fsPath)} ↔ ${title}`, {
+		preview: true
+	});
+	const apply = await decision;
+
+	pendingPreviews.delete(key);
+	previewContents.delete(key);
+	for (const tab of vscode.window.tabGroups.all.flatMap((group) => group.tabs)) {
+		if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === key) {
+			await vscode.window.tabGroups.close(tab);
+		}
+	}
+	return apply;
+}
+
+function registerIgnoreFileLinter(context: vscode.ExtensionContext): void {
+	const lintedDocuments = new Set<string>();
+	const pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+	// Linting is debounced so typing in a large repository stays responsive
+	const schedule = (document: vscode.TextDocument, delay = 300) => {
+		const key = document.uri.toString();
+		clearTimeout(pending.get(key));
+		pending.set(key, setTimeout(() => {
+			pending.delete(key);
+			void lintIgnoreDocument(document).then((linted) => {
+				if (linted) {
+					lintedDocuments.add(key);
+				} else {
+					lintedDocuments.delete(key);
+				}
+			}, (error) => {
+				outputChannel.appendLine(`ERROR: Unable to lint "${document.uri.fsPath}": ${toErrorMessage(error)}`);
+			});
+		}, delay));
+	};
+	const lintOpenDocuments = (delay?: number) => {
+		for (const document of vscode.workspace.textDocuments) {
+			if (lintedDocuments.has(document.uri.toString())) {
+				schedule(document, delay);
+			}
+		}
+	};
+
+	for (const document of vscode.workspace.textDocuments) {
+		schedule(document, 0);
 	}
-	if (path.basename(document.uri.fsPath) !== '.gitignore') {
+
+	const watcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+	context.subscriptions.push(
+		lintDiagnostics,
+		watcher,
+		watcher.onDidCreate((uri) => {
+			evictDirectoryListings(uri);
+			lintOpenDocuments(1000);
+		}),
+		watcher.onDidDelete((uri) => {
+			evictDirectoryListings(uri);
+			lintOpenDocuments(1000);
+		}),
+		vscode.workspace.onDidOpenTextDocument((document) => schedule(document, 0)),
+		vscode.workspace.onDidChangeTextDocument((event) => {
+			if (lintedDocuments.has(event.document.uri.toString()) || isIgnoreFileDocument(event.document)) {
+				schedule(event.document);
+			}
+		}),
+		vscode.workspace.onDidCloseTextDocument((document) => {
+			const key = document.uri.toString();
+			clearTimeout(pending.get(key));
+			pending.delete(key);
+			lintedDocuments.delete(key);
+			lintDiagnostics.delete(document.uri);
+		}),
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration('gitignoreAssistant')) {
+				lintOpenDocuments(0);
+			}
+		}),
+		{ dispose: () => pending.forEach((timer) => clearTimeout(timer)) }
+	);
+}
+
+// Returns false when the document is not an ignore file managed by the extension
+async function lintIgnoreDocument(document: vscode.TextDocument): Promise<boolean> {
+	const resolved = await resolveIgnoreFileDocument(document);
+	if (!resolved) {
+		lintDiagnostics.delete(document.uri);
 		return false;
 	}
-	const workspace = vscode.workspace.getWorkspaceFolder(document.uri);
-	if (!workspace) {
+
+	const { workspace, target } = resolved;
+	const severities = getLintSeverities(workspace);
+	const lines = parseLines(document.getText());
+	const options = await loadLintOptions(target, workspace);
+	const issues = lintIgnoreLines(lines, options).filter((issue) => severities[issue.rule] !== 'off');
+	if (document.isClosed) {
 		return false;
 	}
-	const relative = path.relative(workspace.uri.fsPath, document.uri.fsPath);
-	return relative === '.gitignore';
+	lintDiagnostics.set(document.uri, issues.map((issue) => toLintDiagnostic(issue, document, severities[issue.rule])));
+	return true;
 }
 
-function shouldSortWhenCleaning(workspace?: vscode.WorkspaceFolder): boolean {
-	return vscode.workspace
-		.getConfiguration('gitignoreAssistant', workspace?.uri)
-		.get<boolean>('sortWhenCleaning', false);
+async function resolveIgnoreFileDocument(
+	document: vscode.TextDocument
+): Promise<{ workspace: vscode.WorkspaceFolder; target: IgnoreFileTarget } | undefined> {
+	if (document.uri.scheme !== 'file') {
+		return undefined;
+	}
+	if (!isIgnoreFileDocument(document)) {
+		const globalUri = await getGlobalExcludesFile();
+		if (globalUri.fsPath !== document.uri.fsPath) {
+			return undefined;
+		}
+	}
+	return resolveIgnoreFileForResource(document.uri);
 }
 
-function shouldRemoveEmptyLines(workspace?: vscode.WorkspaceFolder): boolean {
-	return vscode.workspace
-		.getConfiguration('gitignoreAssistant', workspace?.uri)
-		.get<boolean>('removeEmptyLines', false);
+async function loadLintOptions(target: IgnoreFileTarget, workspace: vscode.WorkspaceFolder): Promise<LintOptions> {
+	const source = target.uri.toString();
+	// The global excludes file applies to every repository, so only static checks apply
+	if (target.kind === 'global' || !target.baseUri) {
+		return { source };
+	}
+
+	// Evaluating the ignore file itself loads every ignore file up to its own folder
+	const probe = target.kind === 'exclude' ? vscode.Uri.joinPath(target.baseUri, '.gitignore') : target.uri;
+	const ruleContext = await loadIgnoreRulesForTarget(probe, workspace);
+	const isOwnRule = (rule: IgnoreRule) => vscode.Uri.parse(rule.source).fsPath === target.uri.fsPath;
+	const { lowerPrecedenceRules, higherPrecedenceRules } = splitRulesByPrecedence(ruleContext.rules, target.uri);
+	const basePath = path.relative(ruleContext.rootUri.fsPath, target.baseUri.fsPath).split(path.sep).join('/');
+
+	let paths = await listRepositoryPaths(
+		ruleContext.rootUri,
+		basePath,
+		(directory) => checkIgnored(ruleContext.rules, directory, true).ignored,
+		getDirectoryListings(ruleContext.rootUri)
+	);
+	if (paths) {
+		// Contents of ignored folders are not listed, so literal entries are checked directly
+		const literalPaths = await Promise.all(
+			ruleContext.rules
+				.filter((rule) => isOwnRule(rule) && rule.anchored && !hasGlobSyntax(rule.pattern))
+				.map(async (rule) => {
+					const relative = rule.pattern.replace(/^!/, '').replace(/^\/+/, '').replace(/\/+$/, '');
+					const candidate = [basePath, unescapeLiteralPath(relative)].filter(Boolean).join('/');
+					try {
+						const stat = await vscode.workspace.fs.stat(vscode.Uri.joinPath(ruleContext.rootUri, ...candidate.split('/')));
+						return isRealDirectory(stat) ? `${candidate}/` : candidate;
+					} catch {
+						return undefined;
+					}
+				})
+		);
+		paths = [...paths, ...literalPaths.filter((value): value is string => !!value)];
+	}
+
+	return {
+		source,
+		basePath,
+		lowerPrecedenceRules,
+		higherPrecedenceRules,
+		paths,
+		expectedEntries: getBaseEntriesForTarget(target, workspace)
+	};
 }
 
-function shouldRemoveComments(workspace?: vscode.WorkspaceFolder): boolean {
-	return vscode.workspace
-		.getConfiguration('gitignoreAssistant', workspace?.uri)
-		.get<boolean>('removeComments', false);
+// Rules of the other ignore files, split around the rules of the given file
+function splitRulesByPrecedence(
+	rules: IgnoreRule[],
+	uri: vscode.Uri
+): { lowerPrecedenceRules: IgnoreRule[]; higherPrecedenceRules: IgnoreRule[] } {
+	const isOwnRule = (rule: IgnoreRule) => vscode.Uri.parse(rule.source).fsPath === uri.fsPath;
+	const firstOwn = rules.findIndex(isOwnRule);
+	return {
+		lowerPrecedenceRules: firstOwn < 0 ? rules : rules.slice(0, firstOwn),
+		higherPrecedenceRules: firstOwn < 0 ? [] : rules.slice(firstOwn).filter((rule) => !isOwnRule(rule))
+	};
 }
 
-function getBaseEntries(workspace?: vscode.WorkspaceFolder): string[] {
-	const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', workspace?.uri);
-	const normalized = normalizeBaseEntries(configuration.get<unknown>('baseEntries'));
-	if (normalized.length === 0) {
-		const inspect = configuration.inspect<unknown>('baseEntries');
-		const hasOverride =
-			inspect?.workspaceFolderValue !== undefined ||
-			inspect?.workspaceValue !== undefined ||
-			inspect?.globalValue !== undefined;
-		return hasOverride ? [] : [...DEFAULT_BASE_ENTRIES];
+// Lists files and folders like Git sees them: ignored folders are listed but not entered
+async function listRepositoryPaths(
+	rootUri: vscode.Uri,
+	basePath: string,
+	isExcluded: (directory: string) => boolean,
+	listings?: DirectoryListings
+): Promise<string[] | undefined> {
+	const paths: string[] = [];
+	const queue = [basePath];
+	for (let index = 0; index < queue.length; index += 1) {
+		const directory = queue[index];
+		const entries = await readDirectory(rootUri, directory, listings);
+		if (!entries) {
+			continue;
+		}
+		for (const [name, type] of entries) {
+			if (name === '.git') {
+				continue;
+			}
+			const relative = directory ? `${directory}/${name}` : name;
+			const isDirectory = (type & vscode.FileType.Directory) !== 0 && (type & vscode.FileType.SymbolicLink) === 0;
+			paths.push(isDirectory ? `${relative}/` : relative);
+			if (paths.length > LINT_PATH_LIMIT) {
+				return undefined;
+			}
+			if (isDirectory && !isExcluded(relative)) {
+				queue.push(relative);
+			}
+		}
 	}
-	return normalized;
+	return paths;
 }
 
-function normalizeBaseEntries(raw: unknown): string[] {
-	if (!Array.isArray(raw)) {
-		return [...DEFAULT_BASE_ENTRIES];
+function getDirectoryListings(rootUri: vscode.Uri): DirectoryListings {
+	let listings = directoryListingCache.get(rootUri.toString());
+	if (!listings) {
+		listings = new Map();
+		directoryListingCache.set(rootUri.toString(), listings);
 	}
-	const normalized: string[] = [];
-	const seen = new Set<string>();
-	for (const value of raw) {
-		if (typeof value !== 'string') {
+	return listings;
+}
+
+function readDirectory(rootUri: vscode.Uri, directory: string, listings?: DirectoryListings): Promise<[string, vscode.FileType][] | undefined> {
+	const uri = directory ? vscode.Uri.joinPath(rootUri, ...directory.split('/')) : rootUri;
+	// Folders outside the workspace are read every time, since no watcher reports their changes
+	const cache = vscode.workspace.getWorkspaceFolder(uri) ? listings : undefined;
+	return memoize(cache, directory, async () => {
+		try {
+			return await vscode.workspace.fs.readDirectory(uri);
+		} catch {
+			return undefined;
+		}
+	});
+}
+
+// Drops the listing of the changed path's folder, and of the path itself and everything below it when it was a folder
+function evictDirectoryListings(uri: vscode.Uri): void {
+	for (const [rootKey, listings] of directoryListingCache) {
+		const relative = path.relative(vscode.Uri.parse(rootKey).fsPath, uri.fsPath).split(path.sep).join('/');
+		if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
 			continue;
 		}
-		const trimmed = value.trim();
-		if (!trimmed || seen.has(trimmed)) {
-			continue;
+		const parent = path.posix.dirname(relative);
+		listings.delete(parent === '.' ? '' : parent);
+		for (const directory of listings.keys()) {
+			if (directory === relative || directory.startsWith(`${relative}/`)) {
+				listings.delete(directory);
+			}
+		}
+	}
+}
+
+function toLintDiagnostic(issue: LintIssue, document: vscode.TextDocument, severity: LintSeverity): vscode.Diagnostic {
+	const diagnostic = new vscode.Diagnostic(
+		new vscode.Range(issue.line, issue.start, issue.line, issue.end),
+		issue.message,
+		toDiagnosticSeverity(severity)
+	);
+	diagnostic.source = LINT_SOURCE;
+	diagnostic.code = issue.rule;
+	if (issue.rule === 'duplicate' || issue.rule === 'normalizedDuplicate' || issue.rule === 'ineffectiveNegation' || issue.rule === 'redundantEntry') {
+		diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+	}
+	if (issue.relatedLine !== undefined && issue.relatedLine < document.lineCount) {
+		const label = issue.rule === 'ineffectiveNegation'
+			? issue.reason === 'overridden' ? OVERRIDING_RULE_LABEL : EXCLUDED_PARENT_LABEL
+			: issue.rule === 'redundantEntry' ? 'Covering rule' : 'First occurrence';
+		diagnostic.relatedInformation = [
+			new vscode.DiagnosticRelatedInformation(new vscode.Location(document.uri, document.lineAt(issue.relatedLine).range), label)
+		];
+	}
+	return diagnostic;
+}
+
+function registerIgnoreFileCodeActions(context: vscode.ExtensionContext): void {
+	const provider: vscode.CodeActionProvider = {
+		provideCodeActions: async (document, range, codeActionContext) => {
+			const resolved = await resolveIgnoreFileDocument(document);
+			if (!resolved) {
+				return undefined;
+			}
+			const { workspace, target } = resolved;
+			const only = codeActionContext.only;
+			if (only && FIX_ALL_KIND.contains(only)) {
+				const fixAll = await buildFixAllAction(document, target, workspace);
+				return fixAll ? [fixAll] : [];
+			}
+
+			const actions: vscode.CodeAction[] = [];
+			const diagnostics = codeActionContext.diagnostics.filter((diagnostic) => diagnostic.source === LINT_SOURCE);
+			let comparison: Promise<IgnoreComparison | undefined> | undefined;
+			const loadComparison = () => (comparison ??= loadIgnoreComparison(target, workspace, parseLines(document.getText()), true));
+			for (const diagnostic of diagnostics) {
+				actions.push(...(await buildDiagnosticFixes(document, diagnostic, loadComparison)));
+			}
+			for (let line = range.start.line; line <= range.end.line && line < document.lineCount; line += 1) {
+				actions.push(...(await buildEntryActions(document, line, target, workspace)));
+			}
+			// Fix all is only offered next to a problem, since it inspects every entry on disk
+			const fixAll = diagnostics.length ? await buildFixAllAction(document, target, workspace) : undefined;
+			if (fixAll) {
+				actions.push(fixAll);
+			}
+			return actions;
+		}
+	};
+
+	const metadata: vscode.CodeActionProviderMetadata = {
+		providedCodeActionKinds: [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorRewrite, FIX_ALL_KIND]
+	};
+	registerForIgnoreFiles(context, (selector) => vscode.languages.registerCodeActionsProvider(selector, provider, metadata));
+}
+
+// Registers a language feature for .gitignore and info/exclude files, and for the global excludes file by path once
+// resolved, again whenever Git config moves it
+function registerForIgnoreFiles(context: vscode.ExtensionContext, register: (selector: vscode.DocumentSelector) => vscode.Disposable): void {
+	let registration = register(IGNORE_FILE_SELECTOR);
+	const registerWithGlobalFile = async () => {
+		const globalUri = await getGlobalExcludesFile();
+		const globalFilter: vscode.DocumentFilter = {
+			scheme: 'file',
+			pattern: new vscode.RelativePattern(vscode.Uri.file(path.dirname(globalUri.fsPath)), path.basename(globalUri.fsPath))
+		};
+		registration.dispose();
+		registration = register([IGNORE_FILE_SELECTOR, globalFilter]);
+	};
+	void registerWithGlobalFile();
+	context.subscriptions.push(
+		{ dispose: () => registration.dispose() },
+		globalExcludesChangeEmitter.event(() => void registerWithGlobalFile())
+	);
+}
+
+function isLintRuleId(code: vscode.Diagnostic['code']): code is LintRuleId {
+	return typeof code === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_LINT_SEVERITY, code);
+}
+
+async function buildDiagnosticFixes(
+	document: vscode.TextDocument,
+	diagnostic: vscode.Diagnostic,
+	loadComparison: () => Promise<IgnoreComparison | undefined>
+): Promise<vscode.CodeAction[]> {
+	const line = diagnostic.range.start.line;
+	const text = document.lineAt(line).text;
+	const createFix = (title: string, apply: (edit: vscode.WorkspaceEdit) => void, isPreferred = false) => {
+		const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+		action.edit = new vscode.WorkspaceEdit();
+		apply(action.edit);
+		action.diagnostics = [diagnostic];
+		action.isPreferred = isPreferred;
+		return action;
+	};
+	const deleteLine = (edit: vscode.WorkspaceEdit) => edit.delete(document.uri, document.lineAt(line).rangeIncludingLineBreak);
+	// Copies and covered entries can still matter to a negation, so they are only removed when nothing changes
+	const canDeleteLine = async () => keepsIgnoredPaths(
+		await loadComparison(),
+		parseLines(document.getText()).filter((_, index) => index !== line)
+	);
+	const code = diagnostic.code;
+	if (diagnostic.source !== LINT_SOURCE || !isLintRuleId(code)) {
+		return [];
+	}
+
+	switch (code) {
+		case 'duplicate':
+		case 'normalizedDuplicate':
+			return (await canDeleteLine()) ? [createFix('Remove duplicate entry', deleteLine, true)] : [];
+		case 'redundantEntry':
+			return (await canDeleteLine()) ? [createFix('Remove redundant entry', deleteLine, true)] : [];
+		case 'missingPath':
+		case 'unmatchedPattern':
+			return [createFix('Remove entry that matches nothing', deleteLine)];
+		case 'trailingWhitespace': {
+			const whitespace = diagnostic.range;
+			const escaped = text.slice(whitespace.start.character).replace(/\t/g, '').replace(/ /g, '\\ ');
+			return [
+				createFix('Remove trailing whitespace', (edit) => edit.delete(document.uri, whitespace), true),
+				createFix('Escape trailing spaces', (edit) => edit.replace(document.uri, whitespace, escaped))
+			];
+		}
+		case 'backslashSeparator':
+			return [
+				createFix('Use "/" as the path separator', (edit) => edit.replace(document.uri, diagnostic.range, '/'), true)
+			];
+		case 'ineffectiveNegation': {
+			// Negations overridden by a later rule can be moved below it; excluded parents need the parent rule rewritten
+			const overriding = diagnostic.relatedInformation?.find((related) => related.message === OVERRIDING_RULE_LABEL);
+			const overridingLine = overriding?.location.range.start.line;
+			if (overridingLine === undefined || overridingLine <= line) {
+				return [];
+			}
+			return [
+				createFix(`Move negation below line ${overridingLine + 1}`, (edit) => {
+					const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+					const isLastLine = overridingLine === document.lineCount - 1;
+					const position = document.lineAt(overridingLine).rangeIncludingLineBreak.end;
+					edit.insert(document.uri, position, isLastLine ? `${eol}${text.trim()}` : `${text.trim()}${eol}`);
+					deleteLine(edit);
+				}, true)
+			];
+		}
+		default:
+			return [];
+	}
+}
+
+async function buildEntryActions(
+	document: vscode.TextDocument,
+	line: number,
+	target: IgnoreFileTarget,
+	workspace: vscode.WorkspaceFolder
+): Promise<vscode.CodeAction[]> {
+	const textLine = document.lineAt(line);
+	const entry = textLine.text.trim();
+	if (!entry || entry.startsWith('#') || entry.startsWith('!')) {
+		return [];
+	}
+	const actions: vscode.CodeAction[] = [];
+	const replaceEntry = (title: string, kind: vscode.CodeActionKind, replacement: string) => {
+		const action = new vscode.CodeAction(title, kind);
+		action.edit = new vscode.WorkspaceEdit();
+		action.edit.replace(document.uri, textLine.range, replacement);
+		actions.push(action);
+	};
+
+	const relativePath = entry.replace(/^\/+/, '').replace(/\/+$/, '');
+	// Anchoring a glob would stop it matching at any depth, so only literal names are offered the narrower meaning
+	if (target.baseUri && !entry.startsWith('/') && !relativePath.includes('/') && !hasGlobSyntax(relativePath)) {
+		replaceEntry(`Anchor "${entry}" to the ignore file folder`, vscode.CodeActionKind.RefactorRewrite, `/${entry}`);
+	}
+
+	let stat: vscode.FileStat | undefined;
+	if (target.baseUri && relativePath) {
+		try {
+			stat = await vscode.workspace.fs.stat(vscode.Uri.joinPath(target.baseUri, unescapeLiteralPath(relativePath)));
+		} catch {
+			// Missing paths are reported by the linter
+		}
+	}
+	if (stat && hasGlobSyntax(relativePath)) {
+		// The name exists literally, so its special characters were not meant as a pattern
+		replaceEntry('Escape special characters', vscode.CodeActionKind.QuickFix, entry.replace(/(?<!\\)([*?[\]])/g, '\\$1'));
+	} else if (stat && !isPatternLine(entry)) {
+		const isDirectory = isRealDirectory(stat);
+		if (isDirectory && !entry.endsWith('/') && shouldUseTrailingSlashForFolders(workspace)) {
+			replaceEntry('Add trailing slash (folder)', vscode.CodeActionKind.QuickFix, `${entry}/`);
+		} else if (!isDirectory && entry.endsWith('/')) {
+			// Git never matches files or symlinks with a trailing slash
+			replaceEntry('Remove trailing slash (not a folder)', vscode.CodeActionKind.QuickFix, entry.replace(/\/+$/, ''));
+		}
+	}
+	return actions;
+}
+
+// Removes duplicates (and redundant entries when enabled), ensures base entries and normalizes folder slashes unless
+// that changes which paths are ignored, then replaces flagged backslash separators.
+// Overridden negations are left to their quick fix, since moving one changes which paths are ignored.
+async function buildFixAllAction(
+	document: vscode.TextDocument,
+	target: IgnoreFileTarget,
+	workspace: vscode.WorkspaceFolder
+): Promise<vscode.CodeAction | undefined> {
+	const clean = shouldUseManagedBlock(workspace) ? cleanManagedBlock : cleanGitignoreEntries;
+	const original = parseLines(document.getText());
+	const cleaned = await clean(
+		original,
+		{
+			sort: false,
+			removeEmptyLines: false,
+			removeComments: false,
+			removeRedundant: shouldRemoveRedundantEntries(workspace),
+			trailingSlashForFolders: shouldUseTrailingSlashForFolders(workspace),
+			baseUri: target.baseUri
+		},
+		getBaseEntriesForTarget(target, workspace)
+	);
+	// Like the Clean command, the cleaned lines are dropped when they would change which paths are ignored
+	const comparison = arraysEqual(original, cleaned.lines) ? undefined : await loadIgnoreComparison(target, workspace, original, true);
+	const lines = keepsIgnoredPaths(comparison, cleaned.lines) ? [...cleaned.lines] : [...original];
+
+	// The linter flags one backslash per line, so repeat until none are left
+	for (;;) {
+		const issues = lintIgnoreLines(lines, { source: target.uri.toString() }).filter((issue) => issue.rule === 'backslashSeparator');
+		if (!issues.length) {
+			break;
+		}
+		for (const issue of issues) {
+			const line = lines[issue.line];
+			lines[issue.line] = `${line.slice(0, issue.start)}/${line.slice(issue.end)}`;
+		}
+	}
+
+	const change = computeLineEdit(document, lines);
+	if (!change) {
+		return undefined;
+	}
+	const action = new vscode.CodeAction('Fix all ignore file problems', FIX_ALL_KIND);
+	action.edit = new vscode.WorkspaceEdit();
+	action.edit.replace(document.uri, change.range, change.text);
+	return action;
+}
+
+function registerIgnoreFileCompletion(context: vscode.ExtensionContext): void {
+	const provider: vscode.CompletionItemProvider = {
+		provideCompletionItems: async (document, position) => {
+			const resolved = await resolveIgnoreFileDocument(document);
+			// Paths are meaningless in the global excludes file
+			if (!resolved?.target.baseUri) {
+				return undefined;
+			}
+			return buildPathCompletions(document, position, resolved.target, resolved.workspace);
+		}
+	};
+
+	context.subscriptions.push(
+		vscode.languages.registerCompletionItemProvider(
+			IGNORE_FILE_SELECTOR,
+			provider,
+			'/'
+		)
+	);
+}
+
+async function buildPathCompletions(
+	document: vscode.TextDocument,
+	position: vscode.Position,
+	target: IgnoreFileTarget,
+	workspace: vscode.WorkspaceFolder
+): Promise<vscode.CompletionItem[] | undefined> {
+	const baseUri = target.baseUri;
+	const before = document.lineAt(position.line).text.slice(0, position.character);
+	if (!baseUri || before.trimStart().startsWith('#')) {
+		return undefined;
+	}
+
+	const entryStart = before.length - before.trimStart().length + (before.trimStart().startsWith('!') ? 1 : 0);
+	const typed = before.slice(entryStart);
+	const anchored = typed.startsWith('/');
+	const directory = typed.replace(/^\/+/, '').slice(0, typed.replace(/^\/+/, '').lastIndexOf('/') + 1);
+	if (hasGlobSyntax(directory)) {
+		return undefined;
+	}
+
+	let entries: [string, vscode.FileType][];
+	try {
+		entries = await vscode.workspace.fs.readDirectory(vscode.Uri.joinPath(baseUri, unescapeLiteralPath(directory)));
+	} catch {
+		return undefined;
+	}
+
+	const range = new vscode.Range(position.line, entryStart, position.line, position.character);
+	const ruleContext = await loadIgnoreRulesForTarget(
+		target.kind === 'exclude' ? vscode.Uri.joinPath(baseUri, '.gitignore') : target.uri,
+		workspace
+	).catch(() => undefined);
+	// Only rules above the cursor count, so the entry being typed does not flag itself
+	const earlierRules = ruleContext?.rules.filter(
+		(rule) => vscode.Uri.parse(rule.source).fsPath !== target.uri.fsPath || rule.line <= position.line
+	) ?? [];
+
+	const items: vscode.CompletionItem[] = [];
+	const extensions = new Set<string>();
+	for (const [name, type] of entries) {
+		if (name === '.git' || (!directory && name === '.gitignore')) {
+			continue;
+		}
+		const isDirectory = (type & vscode.FileType.Directory) !== 0 && (type & vscode.FileType.SymbolicLink) === 0;
+		const relativePath = `${directory}${name}`;
+		let entry = formatGitignoreEntry(relativePath, isDirectory, workspace);
+		if (anchored && !entry.startsWith('/')) {
+			entry = `/${entry}`;
+		}
+
+		const item = new vscode.CompletionItem(
+			isDirectory ? `${name}/` : name,
+			isDirectory ? vscode.CompletionItemKind.Folder : vscode.CompletionItemKind.File
+		);
+		item.insertText = entry;
+		item.filterText = anchored ? `/${escapeLiteralPath(relativePath)}` : escapeLiteralPath(relativePath);
+		item.range = range;
+		item.sortText = `${isDirectory ? '0' : '1'}${name}`;
+		if (isDirectory) {
+			item.command = { command: 'editor.action.triggerSuggest', title: 'Suggest folder contents' };
+		} else if (name.lastIndexOf('.') > 0) {
+			extensions.add(name.slice(name.lastIndexOf('.')));
+		}
+
+		if (ruleContext) {
+			const candidate = path.relative(ruleContext.rootUri.fsPath, path.join(baseUri.fsPath, relativePath)).split(path.sep).join('/');
+			const result = checkIgnored(earlierRules, candidate, isDirectory);
+			if (result.ignored && result.rule) {
+				item.detail = `Already ignored by ${formatRuleLocation(result.rule)}`;
+				item.tags = [vscode.CompletionItemTag.Deprecated];
+			}
+		}
+		items.push(item);
+	}
+
+	const addGlob = (glob: string, detail: string) => {
+		const item = new vscode.CompletionItem(glob, vscode.CompletionItemKind.Snippet);
+		item.insertText = glob;
+		item.filterText = anchored ? glob : glob.replace(/^\//, '');
+		item.range = range;
+		item.detail = detail;
+		item.sortText = `2${glob}`;
+		items.push(item);
+	};
+	if (!directory) {
+		addGlob('**/', 'Match in any folder');
+	}
+	for (const extension of Array.from(extensions).sort()) {
+		const prefix = directory ? `${anchored ? '/' : ''}${directory}` : '';
+		addGlob(`${prefix}*${extension}`, directory ? `Every ${extension} file in ${directory}` : `Every ${extension} file in any folder`);
+	}
+	return items;
+}
+
+function registerIgnoreFileLinks(context: vscode.ExtensionContext): void {
+	const provider: vscode.DocumentLinkProvider = {
+		provideDocumentLinks: async (document) => {
+			const resolved = await resolveIgnoreFileDocument(document);
+			// Entries in the global excludes file do not refer to a specific folder
+			if (!resolved?.target.baseUri) {
+				return undefined;
+			}
+			const baseUri = resolved.target.baseUri;
+			const links = await Promise.all(
+				parseLines(document.getText()).map((line, index) => buildEntryLink(document, index, baseUri))
+			);
+			return links.filter((link): link is vscode.DocumentLink => !!link);
+		}
+	};
+
+	registerForIgnoreFiles(context, (selector) => vscode.languages.registerDocumentLinkProvider(selector, provider));
+}
+
+// Links a literal entry to the file it names, or to its folder in the Explorer.
+// Missing targets get no link; the linter reports them instead.
+async function buildEntryLink(document: vscode.TextDocument, line: number, baseUri: vscode.Uri): Promise<vscode.DocumentLink | undefined> {
+	const text = document.lineAt(line).text;
+	const trimmed = text.trim();
+	if (!trimmed || trimmed.startsWith('#')) {
+		return undefined;
+	}
+	const entry = trimmed.startsWith('!') ? trimmed.slice(1) : trimmed;
+	const relativePath = entry.replace(/^\/+/, '').replace(/\/+$/, '');
+	if (!relativePath || hasGlobSyntax(relativePath)) {
+		return undefined;
+	}
+
+	const targetUri = vscode.Uri.joinPath(baseUri, unescapeLiteralPath(relativePath));
+	let isDirectory: boolean;
+	try {
+		isDirectory = isRealDirectory(await vscode.workspace.fs.stat(targetUri));
+	} catch {
+		return undefined;
+	}
+	if (entry.endsWith('/') && !isDirectory) {
+		// Git never matches files or symlinks with a trailing slash
+		return undefined;
+	}
+
+	const start = text.indexOf(trimmed) + trimmed.length - entry.length;
+	const link = new vscode.DocumentLink(
+		new vscode.Range(line, start, line, start + entry.length),
+		isDirectory
+			? vscode.Uri.parse(`command:revealInExplorer?${encodeURIComponent(JSON.stringify([targetUri]))}`)
+			: targetUri
+	);
+	link.tooltip = isDirectory ? 'Reveal folder in Explorer' : 'Open file';
+	return link;
+}
+
+function registerIgnoreFileInsights(context: vscode.ExtensionContext): void {
+	const codeLensChangeEmitter = new vscode.EventEmitter<void>();
+
+	const hoverProvider: vscode.HoverProvider = {
+		provideHover: async (document, position) => {
+			const entry = document.lineAt(position.line).text.trim();
+			if (!entry || entry.startsWith('#')) {
+				return undefined;
+			}
+			const evaluation = await evaluateIgnoreDocument(document);
+			return evaluation ? buildEntryHover(document, position.line, evaluation) : undefined;
+		}
+	};
+
+	const codeLensProvider: vscode.CodeLensProvider = {
+		onDidChangeCodeLenses: codeLensChangeEmitter.event,
+		provideCodeLenses: async (document) => {
+			if (!shouldShowCodeLens(vscode.workspace.getWorkspaceFolder(document.uri))) {
+				return [];
+			}
+			const evaluation = await evaluateIgnoreDocument(document);
+			if (!evaluation?.paths) {
+				return [];
+			}
+			return findIgnoreSections(parseLines(document.getText())).map((section) => {
+				const matches = collectSectionMatches(evaluation, section.start, section.end);
+				return new vscode.CodeLens(document.lineAt(section.header).range, {
+					title: `Matches ${describeMatchCount(matches)}`,
+					command: 'gitignore-assistant.showMatches',
+					arguments: [document.uri.toString(), section.start, section.end]
+				});
+			});
+		}
+	};
+
+	registerForIgnoreFiles(context, (selector) => vscode.languages.registerHoverProvider(selector, hoverProvider));
+	registerForIgnoreFiles(context, (selector) => vscode.languages.registerCodeLensProvider(selector, codeLensProvider));
+
+	const showMatchesDisposable = vscode.commands.registerCommand(
+		'gitignore-assistant.showMatches',
+		async (uri: vscode.Uri | string, startLine: number, endLine: number) => {
+			await handleShowMatchesCommand(uri, startLine, endLine);
+		}
+	);
+
+	context.subscriptions.push(
+		codeLensChangeEmitter,
+		showMatchesDisposable,
+		vscode.workspace.onDidCloseTextDocument((document) => evaluationCache.delete(document.uri.toString())),
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration('gitignoreAssistant')) {
+				evaluationCache.clear();
+				codeLensChangeEmitter.fire();
+			}
+		})
+	);
+}
+
+// Evaluates every line of an ignore file against the workspace, reused while the document is unchanged
+async function evaluateIgnoreDocument(document: vscode.TextDocument): Promise<IgnoreFileEvaluation | undefined> {
+	const key = document.uri.toString();
+	const cached = evaluationCache.get(key);
+	if (cached && cached.version === document.version && Date.now() - cached.createdAt < EVALUATION_TTL) {
+		return cached.evaluation;
+	}
+
+	const lines = parseLines(document.getText());
+	const evaluation = (async (): Promise<IgnoreFileEvaluation | undefined> => {
+		const resolved = await resolveIgnoreFileDocument(document);
+		if (!resolved) {
+			return undefined;
+		}
+		const { target, workspace } = resolved;
+		const options = await loadLintOptions(target, workspace);
+		const basePath = options.basePath ?? '';
+		const ownRules = parseIgnoreRules(lines, { source: options.source, basePath });
+		return {
+			baseUri: target.baseUri,
+			basePath,
+			ownRules,
+			allRules: [...(options.lowerPrecedenceRules ?? []), ...ownRules, ...(options.higherPrecedenceRules ?? [])],
+			paths: options.paths && Array.from(new Set(options.paths)).map((value) => ({
+				path: value.replace(/\/+$/, ''),
+				isDirectory: value.endsWith('/')
+			})),
+			baseEntries: options.expectedEntries ?? []
+		};
+	})();
+	evaluationCache.set(key, { version: document.version, createdAt: Date.now(), evaluation });
+	evaluation.catch((error) => {
+		evaluationCache.delete(key);
+		outputChannel.appendLine(`ERROR: Unable to evaluate "${document.uri.fsPath}": ${toErrorMessage(error)}`);
+	});
+	return evaluation;
+}
+
+function buildEntryHover(document: vscode.TextDocument, line: number, evaluation: IgnoreFileEvaluation): vscode.Hover | undefined {
+	const rule = evaluation.ownRules.find((candidate) => candidate.line === line + 1);
+	if (!rule) {
+		return undefined;
+	}
+
+	const markdown = new vscode.MarkdownString();
+	markdown.isTrusted = { enabledCommands: ['gitignore-assistant.showMatches'] };
+	if (evaluation.paths) {
+		const matches = evaluation.paths.filter((candidate) => ruleMatches(rule, candidate.path, candidate.isDirectory));
+		markdown.appendMarkdown(`**Matches ${describeMatchCount(matches)}**\n\n`);
+		const sample = matches.slice(0, HOVER_SAMPLE_SIZE).map((match) => `- \`${toEvaluationPath(evaluation, match)}\``);
+		if (matches.length > sample.length) {
+			const args = encodeURIComponent(JSON.stringify([document.uri.toString(), line, line]));
+			sample.push(`- …and ${matches.length - sample.length} more ([show all](command:gitignore-assistant.showMatches?${args}))`);
+		}
+		if (sample.length) {
+			markdown.appendMarkdown(`${sample.join('\n')}\n\n`);
+		}
+
+		// The last matching rule wins, so any other deciding rule comes after this line
+		const overrides = new Map<IgnoreRule, number>();
+		for (const match of matches) {
+			const result = checkIgnored(evaluation.allRules, match.path, match.isDirectory);
+			if (result.rule && result.rule !== rule && !result.excludedParent) {
+				overrides.set(result.rule, (overrides.get(result.rule) ?? 0) + 1);
+			}
+		}
+		for (const [overriding, count] of overrides) {
+			const location = overriding.source === rule.source
+				? `line ${overriding.line} (\`${overriding.pattern}\`)`
+				: `\`${formatRuleLocation(overriding)}\``;
+			markdown.appendMarkdown(`Overridden by ${location} for ${count === matches.length ? 'every match' : `${count} of ${matches.length} matches`}.\n\n`);
+		}
+	} else if (evaluation.baseUri) {
+		markdown.appendMarkdown('The workspace has too many files to evaluate this entry.\n\n');
+	}
+	if (evaluation.baseEntries.includes(rule.pattern)) {
+		markdown.appendMarkdown('Base entry from `gitignoreAssistant.baseEntries`.\n\n');
+	}
+	return markdown.value ? new vscode.Hover(markdown, document.lineAt(line).range) : undefined;
+}
+
+async function handleShowMatchesCommand(uri: vscode.Uri | string, startLine: number, endLine: number): Promise<void> {
+	const document = await vscode.workspace.openTextDocument(typeof uri === 'string' ? vscode.Uri.parse(uri) : uri);
+	const evaluation = await evaluateIgnoreDocument(document);
+	const baseUri = evaluation?.baseUri;
+	if (!evaluation?.paths || !baseUri) {
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage('Matches cannot be listed for this ignore file.');
+		}
+		return;
+	}
+
+	const items = collectSectionMatches(evaluation, startLine, endLine).map((match) => ({
+		label: `${toEvaluationPath(evaluation, match)}${match.isDirectory ? '/' : ''}`,
+		description: `line ${match.rule.line}: ${match.rule.pattern}`,
+		match
+	}));
+	if (!items.length) {
+		if (shouldShowNotifications()) {
+			vscode.window.showInformationMessage('No files or folders match these entries.');
+		}
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(items, {
+		placeHolder: `Files and folders matched by ${startLine === endLine ? `line ${startLine + 1}` : `lines ${startLine + 1}-${endLine + 1}`}`,
+		matchOnDescription: true
+	});
+	if (!picked) {
+		return;
+	}
+	const pickedUri = vscode.Uri.joinPath(baseUri, ...toEvaluationPath(evaluation, picked.match).split('/'));
+	if (picked.match.isDirectory) {
+		await vscode.commands.executeCommand('revealInExplorer', pickedUri);
+	} else {
+		await vscode.window.showTextDocument(pickedUri);
+	}
+}
+
+// Paths matched by the rules on the given 0-based lines, each with the first rule matching it
+function collectSectionMatches(
+	evaluation: IgnoreFileEvaluation,
+	startLine: number,
+	endLine: number
+): { path: string; isDirectory: boolean; rule: IgnoreRule }[] {
+	const rules = evaluation.ownRules.filter((rule) => rule.line > startLine && rule.line <= endLine + 1);
+	const matches: { path: string; isDirectory: boolean; rule: IgnoreRule }[] = [];
+	for (const candidate of evaluation.paths ?? []) {
+		const rule = rules.find((current) => ruleMatches(current, candidate.path, candidate.isDirectory));
+		if (rule) {
+			matches.push({ ...candidate, rule });
+		}
+	}
+	return matches;
+}
+
+// A section is a run of comments directly followed by entries, up to the next empty line or comment
+function findIgnoreSections(lines: string[]): { header: number; start: number; end: number }[] {
+	const sections: { header: number; start: number; end: number }[] = [];
+	const isComment = (index: number) => lines[index].trim().startsWith('#');
+	let index = 0;
+	while (index < lines.length) {
+		if (!isComment(index)) {
+			index += 1;
+			continue;
+		}
+		const header = index;
+		while (index < lines.length && isComment(index)) {
+			index += 1;
+		}
+		const start = index;
+		while (index < lines.length && lines[index].trim() && !isComment(index)) {
+			index += 1;
+		}
+		if (index > start) {
+			sections.push({ header, start, end: index - 1 });
+		}
+	}
+	return sections;
+}
+
+function toEvaluationPath(evaluation: IgnoreFileEvaluation, match: { path: string }): string {
+	return evaluation.basePath ? match.path.slice(evaluation.basePath.length + 1) : match.path;
+}
+
+function describeMatchCount(matches: { isDirectory: boolean }[]): string {
+	const folders = matches.filter((match) => match.isDirectory).length;
+	const files = matches.length - folders;
+	const parts: string[] = [];
+	if (files) {
+		parts.push(`${files} ${files === 1 ? 'file' : 'files'}`);
+	}
+	if (folders) {
+		parts.push(`${folders} ${folders === 1 ? 'folder' : 'folders'}`);
+	}
+	return parts.length ? parts.join(' and ') : 'nothing';
+}
+
+function toDiagnosticSeverity(severity: LintSeverity): vscode.DiagnosticSeverity {
+	switch (severity) {
+		case 'error':
+			return vscode.DiagnosticSeverity.Error;
+		case 'information':
+			return vscode.DiagnosticSeverity.Information;
+		case 'hint':
+			return vscode.DiagnosticSeverity.Hint;
+		default:
+			return vscode.DiagnosticSeverity.Warning;
+	}
+}
+
+function refreshIgnoreDecorations(): void {
+	decorationCache.lines.clear();
+	decorationCache.repositories.clear();
+	decorationChangeEmitter.fire(undefined);
+}
+
+function isBaseEntryRule(rule: IgnoreRule, workspace: vscode.WorkspaceFolder): boolean {
+	const ruleUri = vscode.Uri.parse(rule.source);
+	return isWorkspaceRootGitignore(ruleUri, workspace) && getBaseEntries(workspace).includes(rule.pattern);
+}
+
+async function readIgnoreFileLines(uri: vscode.Uri): Promise<string[] | undefined> {
+	try {
+		return parseLines(await readIgnoreFileContent(uri));
+	} catch {
+		return undefined;
+	}
+}
+
+// The editor buffer is authoritative when the file is open, including unsaved edits
+async function readIgnoreFileContent(uri: vscode.Uri): Promise<string> {
+	const document = findOpenDocument(uri);
+	if (document) {
+		return document.getText();
+	}
+	return textDecoder.decode(await vscode.workspace.fs.readFile(uri));
+}
+
+function findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+	return vscode.workspace.textDocuments.find(
+		(document) => document.uri.scheme === 'file' && !document.isClosed && document.uri.fsPath === uri.fsPath
+	);
+}
+
+async function writeIgnoreFile(uri: vscode.Uri, lines: string[]): Promise<void> {
+	const document = findOpenDocument(uri);
+	if (!document) {
+		// info/ is not created by every git client
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+		await vscode.workspace.fs.writeFile(uri, textEncoder.encode(serializeLines(lines)));
+		return;
+	}
+
+	const wasDirty = document.isDirty;
+	const change = computeLineEdit(document, lines);
+	if (!change) {
+		return;
+	}
+	const edit = new vscode.WorkspaceEdit();
+	edit.replace(document.uri, change.range, change.text);
+	if (!(await vscode.workspace.applyEdit(edit))) {
+		throw new Error(`Unable to update ${path.basename(uri.fsPath)} in the editor.`);
+	}
+	if (!wasDirty) {
+		await document.save();
+	}
+}
+
+// Replace only the changed lines so the edit is a single, minimal undo step
+function computeLineEdit(document: vscode.TextDocument, lines: string[]): { range: vscode.Range; text: string } | undefined {
+	const text = document.getText();
+	const current = parseLines(text);
+	const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+	let prefix = 0;
+	while (prefix < current.length && prefix < lines.length && current[prefix] === lines[prefix]) {
+		prefix += 1;
+	}
+	let suffix = 0;
+	while (
+		suffix < current.length - prefix &&
+		suffix < lines.length - prefix &&
+		current[current.length - 1 - suffix] === lines[lines.length - 1 - suffix]
+	) {
+		suffix += 1;
+	}
+	if (suffix === 0 && text && !text.endsWith('\n')) {
+		// The last line has no line break yet, so it is rewritten along with the appended lines
+		prefix = Math.min(prefix, current.length - 1);
+	}
+	if (prefix === current.length - suffix && prefix === lines.length - suffix && (!text || text.endsWith('\n'))) {
+		return undefined;
+	}
+
+	const range = new vscode.Range(
+		new vscode.Position(prefix, 0),
+		suffix ? new vscode.Position(current.length - suffix, 0) : document.lineAt(document.lineCount - 1).range.end
+	);
+	return { range, text: lines.slice(prefix, lines.length - suffix).map((line) => `${line}${eol}`).join('') };
+}
+
+function describeIgnoreResult(ruleContext: IgnoreRuleContext, result: IgnoreCheckResult): string {
+	const displayPath = ruleContext.isDirectory ? `${ruleContext.relativePath}/` : ruleContext.relativePath;
+	if (!result.rule) {
+		return `"${displayPath}" is not ignored by any rule.`;
+	}
+	const location = formatRuleLocation(result.rule);
+	if (result.excludedParent) {
+		return `"${displayPath}" is ignored because its parent folder "${result.excludedParent}/" is excluded by ${location}.`;
+	}
+	if (result.rule.negated) {
+		return `"${displayPath}" is not ignored: it is re-included by ${location}.`;
+	}
+	return `"${displayPath}" is ignored by ${location}.`;
+}
+
+function formatRuleLocation(rule: IgnoreRule): string {
+	return `${describeIgnoreSource(rule.source)}:${rule.line}:${rule.pattern}`;
+}
+
+function describeIgnoreSource(source: string): string {
+	const uri = vscode.Uri.parse(source);
+	if (vscode.workspace.getWorkspaceFolder(uri)) {
+		return vscode.workspace.asRelativePath(uri);
+	}
+	return toHomeRelativePath(uri.fsPath);
+}
+
+async function revealIgnoreRule(rule: IgnoreRule): Promise<void> {
+	const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(rule.source));
+	const line = Math.min(rule.line - 1, Math.max(document.lineCount - 1, 0));
+	const range = document.lineAt(line).range;
+	await vscode.window.showTextDocument(document, { preview: true, selection: range });
+}
+
+async function handleInsertTemplateCommand(resourceUri?: vscode.Uri, templateIds?: string[]): Promise<void> {
+	const activeDocument = vscode.window.activeTextEditor?.document;
+	const documentUri = resourceUri ?? (isIgnoreFileDocument(activeDocument) ? activeDocument?.uri : undefined);
+	let workspace: vscode.WorkspaceFolder | undefined;
+	let target: IgnoreFileTarget | undefined;
+
+	if (documentUri) {
+		({ workspace, target } = (await resolveIgnoreFileForResource(documentUri)) ?? {});
+	} else {
+		workspace = await pickWorkspaceFolder('Select a workspace to insert templates into its .gitignore');
+		if (workspace) {
+			target = { uri: vscode.Uri.joinPath(workspace.uri, '.gitignore'), baseUri: workspace.uri, kind: 'gitignore' };
+		}
+	}
+	if (!workspace || !target) {
+		if (documentUri) {
+			const message = 'Templates can only be inserted into a .gitignore, .git/info/exclude, or global excludes file.';
+			if (shouldShowNotifications()) {
+				vscode.window.showWarningMessage(message);
+			}
+			outputChannel.appendLine(`WARNING: ${message}`);
+		}
+		return;
+	}
+
+	const templates = await loadTemplates(workspace);
+	let selected: GitignoreTemplate[];
+	if (templateIds?.length) {
+		selected = templates.filter((template) => templateIds.includes(template.id));
+	} else {
+		const picks = await vscode.window.showQuickPick(
+			templates.map((template) => ({ label: template.label, description: template.description, template })),
+			{ canPickMany: true, placeHolder: `Select templates to insert into ${ignoreFileLabel(target.kind)}` }
+		);
+		selected = picks?.map((pick) => pick.template) ?? [];
+	}
+	if (!selected.length) {
+		return;
+	}
+
+	const originalLines = (await readIgnoreFileLines(target.uri)) ?? [];
+	let lines = originalLines;
+	const updates: string[] = [];
+	for (const template of selected) {
+		const result = applyTemplateSection(lines, template);
+		lines = result.lines;
+		const skipped = result.skipped ? `, ${result.skipped} already present` : '';
+		updates.push(`${template.label} (${result.added} ${pluralizeEntry(result.added)}${skipped})`);
+	}
+
+	if (!arraysEqual(originalLines, lines)) {
+		await writeIgnoreFile(target.uri, lines);
+		refreshIgnoreDecorations();
+	}
+
+	const message = `Inserted templates into ${ignoreFileLabel(target.kind)}: ${formatSummaryList(updates)}.`;
+	if (shouldShowNotifications()) {
+		vscode.window.showInformationMessage(message);
+	}
+	outputChannel.appendLine(`INFO: ${message}`);
+}
+
+async function loadTemplates(workspace: vscode.WorkspaceFolder): Promise<GitignoreTemplate[]> {
+	const templates = new Map<string, GitignoreTemplate>();
+	for (const template of BUNDLED_TEMPLATES) {
+		templates.set(template.label.toLowerCase(), template);
+	}
+
+	const folderSetting = vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace.uri)
+		.get<string>('templatesFolder', '')
+		.trim();
+	if (!folderSetting) {
+		return Array.from(templates.values());
+	}
+
+	const expanded = folderSetting.startsWith('~/') ? path.join(os.homedir(), folderSetting.slice(2)) : folderSetting;
+	const folderUri = path.isAbsolute(expanded) ? vscode.Uri.file(expanded) : vscode.Uri.joinPath(workspace.uri, expanded);
+	try {
+		const entries = await vscode.workspace.fs.readDirectory(folderUri);
+		for (const [name, type] of entries) {
+			if (type !== vscode.FileType.File || !name.endsWith('.gitignore') || name === '.gitignore') {
+				continue;
+			}
+			const label = name.slice(0, -'.gitignore'.length);
+			const lines = (await readIgnoreFileLines(vscode.Uri.joinPath(folderUri, name))) ?? [];
+			// Team templates replace bundled templates with the same name
+			templates.set(label.toLowerCase(), { id: `custom:${label}`, label, description: 'Team template', lines });
+		}
+	} catch (error) {
+		outputChannel.appendLine(`WARNING: Unable to read templates folder "${folderUri.fsPath}": ${toErrorMessage(error)}`);
+	}
+	return Array.from(templates.values());
+}
+
+function applyTemplateSection(
+	lines: string[],
+	template: GitignoreTemplate
+): { lines: string[]; added: number; skipped: number } {
+	const startMarker = `# >>> template: ${template.label}`;
+	const endMarker = `# <<< template: ${template.label}`;
+	const start = lines.findIndex((line) => line.trim() === startMarker);
+	const end = start >= 0 ? lines.findIndex((line, index) => index > start && line.trim() === endMarker) : -1;
+	const hasSection = start >= 0 && end > start;
+	const outside = hasSection ? [...lines.slice(0, start), ...lines.slice(end + 1)] : lines;
+
+	// Entries already present elsewhere in the file are skipped, using the same keying as Clean
+	const existingKeys = new Set(
+		outside
+			.map((line) => line.trim())
+			.filter((line) => line && !line.startsWith('#'))
+			.map((line) => stripAnchorsAndSlashes(line))
+	);
+	const body: string[] = [];
+	let added = 0;
+	let skipped = 0;
+	for (const raw of template.lines) {
+		const line = raw.trim();
+		if (!line || line.startsWith('#')) {
+			body.push(line);
+			continue;
+		}
+		const key = stripAnchorsAndSlashes(line);
+		if (existingKeys.has(key)) {
+			skipped += 1;
+			continue;
+		}
+		existingKeys.add(key);
+		body.push(line);
+		added += 1;
+	}
+
+	const section = added ? [startMarker, ...body, endMarker] : [];
+	if (hasSection) {
+		// Re-inserting updates the section in place
+		return { lines: [...lines.slice(0, start), ...section, ...lines.slice(end + 1)], added, skipped };
+	}
+	if (!added) {
+		return { lines, added, skipped };
+	}
+	const updated = cleanupLines([...lines]);
+	if (updated.length) {
+		updated.push('');
+	}
+	updated.push(...section);
+	return { lines: updated, added, skipped };
+}
+
+async function handleSuggestIgnoreRulesCommand(applyAll = false): Promise<void> {
+	const suggestions = await detectStackSuggestions();
+	if (!suggestions.length) {
+		const message = 'No missing ignore rules found for the detected project types.';
+		if (shouldShowNotifications()) {
+			vscode.window.showInformationMessage(message);
+		}
+		outputChannel.appendLine(`INFO: ${message}`);
+		return;
+	}
+	await applyStackSuggestions(suggestions, applyAll);
+}
+
+async function suggestIgnoreRulesOnStartup(): Promise<void> {
+	try {
+		const suggestions = await detectStackSuggestions();
+		if (!suggestions.length) {
+			return;
+		}
+		const message = `${suggestions.length} standard ${suggestions.length === 1 ? 'artifact is' : 'artifacts are'} not ignored yet.`;
+		outputChannel.appendLine(`INFO: ${message}`);
+		if (!shouldShowNotifications()) {
+			return;
+		}
+		const action = await vscode.window.showInformationMessage(message, 'Review');
+		if (action === 'Review') {
+			await applyStackSuggestions(suggestions, false);
+		}
+	} catch (error) {
+		outputChannel.appendLine(`ERROR: Unable to detect project types: ${toErrorMessage(error)}`);
+	}
+}
+
+async function detectStackSuggestions(): Promise<StackSuggestion[]> {
+	const suggestions = new Map<string, StackSuggestion>();
+	const cache: IgnoreFileCache = { lines: new Map(), repositories: new Map() };
+
+	for (const workspace of vscode.workspace.workspaceFolders ?? []) {
+		const markers = await vscode.workspace.findFiles(
+			new vscode.RelativePattern(workspace, STACK_MARKER_GLOB),
+			new vscode.RelativePattern(workspace, '**/{node_modules,.git,.venv,target,bin,obj,build}/**'),
+			500
+		);
+		markers.sort((left, right) => left.fsPath.localeCompare(right.fsPath));
+
+		for (const marker of markers) {
+			const markerDirectory = vscode.Uri.joinPath(marker, '..');
+			const markerPath = toDisplayPath(workspace, marker);
+			for (const stack of findStacksForMarker(path.basename(marker.fsPath))) {
+				for (const artifact of stack.artifacts) {
+					const isDirectory = artifact.endsWith('/');
+					const uri = vscode.Uri.joinPath(markerDirectory, artifact.replace(/\/+$/, ''));
+					if (suggestions.has(uri.fsPath)) {
+						continue;
+					}
+					try {
+						const ruleContext = await loadIgnoreRulesForTarget(uri, workspace, undefined, cache);
+						if (checkIgnored(ruleContext.rules, ruleContext.relativePath, isDirectory).ignored) {
+							continue;
+						}
+					} catch (error) {
+						outputChannel.appendLine(`WARNING: Unable to check "${toDisplayPath(workspace, uri)}": ${toErrorMessage(error)}`);
+						continue;
+					}
+					suggestions.set(uri.fsPath, { uri, workspace, isDirectory, stackLabel: stack.label, markerPath });
+				}
+			}
+		}
+	}
+
+	return Array.from(suggestions.values());
+}
+
+async function applyStackSuggestions(suggestions: StackSuggestion[], applyAll: boolean): Promise<void> {
+	let selected = suggestions;
+	if (!applyAll) {
+		const picks = await vscode.window.showQuickPick(
+			suggestions.map((suggestion) => ({
+				label: `${toDisplayPath(suggestion.workspace, suggestion.uri)}${suggestion.isDirectory ? '/' : ''}`,
+				description: `${suggestion.stackLabel} (${suggestion.markerPath})`,
+				picked: true,
+				suggestion
+			})),
+			{ canPickMany: true, placeHolder: 'Select the artifacts to ignore' }
+		);
+		selected = picks?.map((pick) => pick.suggestion) ?? [];
+	}
+	if (!selected.length) {
+		return;
+	}
+
+	// Suggested artifacts may not exist yet, so their type comes from the stack definition
+	const directories = new Map(selected.map((suggestion) => [suggestion.uri.fsPath, suggestion.isDirectory]));
+	const addSuggestedEntry: GitignoreOperation = async (state, target, workspace, baseEntries) => {
+		const relativePath = state.baseUri ? getRelativePath(target, state.baseUri) : path.basename(target.fsPath);
+		const entry = formatGitignoreEntry(relativePath, directories.get(target.fsPath) === true, workspace, { anchored: !!state.baseUri });
+		const workspaceName = workspaceLabel(workspace);
+		if (baseEntries.includes(entry)) {
+			return { entry, status: 'skipped', workspaceName, detail: 'Entry is managed automatically.' };
+		}
+		if (addEntry(state.lines, entry, state.managed)) {
+			state.dirty = true;
+			return { entry, status: 'added', workspaceName };
+		}
+		return { entry, status: 'skipped', workspaceName, detail: `Entry already exists in ${ignoreFileLabel(state.kind)}.` };
+	};
+
+	await performGitignoreUpdate(selected.map((suggestion) => suggestion.uri), 'add', addSuggestedEntry);
+}
+
+async function handleIgnoreByPatternCommand(
+	resourceUri: vscode.Uri | undefined,
+	resourceUris: vscode.Uri[] | undefined,
+	variant: PatternVariant
+): Promise<void> {
+	const targets = dedupeUris((resourceUris?.length ? resourceUris : resourceUri ? [resourceUri] : []).filter((uri) => uri.scheme === 'file'));
+	const { grouped } = groupByWorkspace(targets);
+	if (!grouped.size) {
+		const message = 'Select a file or folder in the Explorer to ignore by pattern.';
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage(message);
+		}
+		outputChannel.appendLine(`WARNING: ${message}`);
+		return;
+	}
+
+	const choices = await resolveGitignoreTargetChoices(grouped, 'add');
+	if (!choices) {
+		return;
+	}
+
+	const plans: { uri: vscode.Uri; target: IgnoreFileTarget; entries: string[]; summary: string }[] = [];
+	const problems: string[] = [];
+	for (const [workspace, uris] of grouped) {
+		const choice = choices.get(workspace);
+		if (!choice) {
+			continue;
+		}
+		for (const uri of uris) {
+			try {
+				const target = await resolveIgnoreFileTarget(uri, workspace, choice);
+				const entries = await buildPatternEntries(uri, target, workspace, variant);
+				// Choices already written in the ignore file are not offered again
+				const lines = (await readIgnoreFileLines(target.uri)) ?? [];
+				const missing = entries.filter((entry) => !findMatchingEntry(lines, [entry]));
+				if (!missing.length) {
+					problems.push(`${formatSummaryList(entries.map((entry) => `"${entry}"`))} already exists in ${ignoreFileLabel(target.kind)}.`);
+					continue;
+				}
+				const count = await countPatternMatches(uri, workspace, target, entries);
+				plans.push({ uri, target, entries: missing, summary: `${formatSummaryList(entries.map((entry) => `"${entry}"`))}: ${count}` });
+			} catch (error) {
+				problems.push(`${toDisplayPath(workspace, uri)}: ${toErrorMessage(error)}`);
+			}
+		}
+	}
+
+	problems.forEach((problem) => outputChannel.appendLine(`WARNING: ${problem}`));
+	if (!plans.length) {
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage(problems.join(' '));
+		}
+		return;
+	}
+
+	const add = 'Add';
+	const question = plans.length === 1
+		? `Add ${formatSummaryList(plans[0].entries.map((entry) => `"${entry}"`))} to ${ignoreFileLabel(plans[0].target.kind)}?`
+		: `Add entries for ${plans.length} items?`;
+	const confirmed = await vscode.window.showInformationMessage(
+		question,
+		{ modal: true, detail: [...plans.map((plan) => plan.summary), ...problems].join('\n') },
+		add
+	);
+	if (confirmed !== add) {
+		return;
+	}
+
+	const planned = new Map(plans.map((plan) => [plan.uri.fsPath, plan.entries]));
+	const addPatternEntries: GitignoreOperation = async (state, target, workspace) => {
+		const entries = planned.get(target.fsPath) ?? [];
+		const workspaceName = workspaceLabel(workspace);
+		const added = entries.filter((entry) => addEntry(state.lines, entry, state.managed));
+		if (added.length) {
+			state.dirty = true;
+			return { entry: formatSummaryList(added), status: 'added', workspaceName };
+		}
+		return { entry: formatSummaryList(entries), status: 'skipped', workspaceName, detail: `Entry already exists in ${ignoreFileLabel(state.kind)}.` };
+	};
+	await performGitignoreUpdate(plans.map((plan) => plan.uri), 'add', addPatternEntries, choices);
+}
+
+// Entries written for a pattern variant, relative to the folder of the ignore file
+async function buildPatternEntries(
+	uri: vscode.Uri,
+	target: IgnoreFileTarget,
+	workspace: vscode.WorkspaceFolder,
+	variant: PatternVariant
+): Promise<string[]> {
+	if (variant === 'exactPath') {
+		return [(await buildEntryForAdd(uri, target.baseUri, workspace)).entry];
+	}
+
+	const isDirectory = isRealDirectory(await vscode.workspace.fs.stat(uri));
+	const name = path.basename(uri.fsPath);
+	if (variant === 'nameAnywhere') {
+		return [formatGitignoreEntry(name, isDirectory, workspace, { anchored: false })];
+	}
+
+	if (!target.baseUri) {
+		if (variant === 'extension' && !isDirectory && name.lastIndexOf('.') > 0) {
+			return [`*${escapeLiteralPath(name.slice(name.lastIndexOf('.')))}`];
+		}
+		throw new Error('Only name and extension patterns can be added to the global excludes file.');
+	}
+
+	const relativePath = getRelativePath(uri, target.baseUri);
+	const directory = relativePath.includes('/') ? relativePath.slice(0, relativePath.lastIndexOf('/')) : '';
+	const folderPrefix = directory ? `/${escapeLiteralPath(directory)}/` : '/';
+	if (variant === 'folderExceptFile') {
+		if (!directory) {
+			throw new Error('Select an item inside a subfolder, so the folder holding the ignore file stays tracked.');
+		}
+		return [`${folderPrefix}*`, `!/${escapeLiteralPath(relativePath)}${isDirectory ? '/' : ''}`];
+	}
+
+	if (isDirectory || name.lastIndexOf('.') <= 0) {
+		throw new Error(`"${name}" has no file extension.`);
+	}
+	const extension = `*${escapeLiteralPath(name.slice(name.lastIndexOf('.')))}`;
+	return [variant === 'extension' ? extension : `${folderPrefix}${extension}`];
+}
+
+// Describes what the entries would match among the paths Git currently sees
+async function countPatternMatches(
+	uri: vscode.Uri,
+	workspace: vscode.WorkspaceFolder,
+	target: IgnoreFileTarget,
+	entries: string[]
+): Promise<string> {
+	const ruleContext = await loadIgnoreRulesForTarget(uri, workspace);
+	const basePath = target.baseUri
+		? path.relative(ruleContext.rootUri.fsPath, target.baseUri.fsPath).split(path.sep).join('/')
+		: '';
+	const rules = parseIgnoreRules(entries, { source: target.uri.toString(), basePath });
+	const paths = await listRepositoryPaths(ruleContext.rootUri, basePath, (directory) => checkIgnored(ruleContext.rules, directory, true).ignored);
+	if (!paths) {
+		return 'too many files in the workspace to count matches';
+	}
+
+	const matches: { isDirectory: boolean }[] = [];
+	let alreadyIgnored = 0;
+	for (const value of paths) {
+		const isDirectory = value.endsWith('/');
+		const candidate = value.replace(/\/+$/, '');
+		if (!checkIgnored(rules, candidate, isDirectory).ignored) {
+			continue;
+		}
+		matches.push({ isDirectory });
+		if (checkIgnored(ruleContext.rules, candidate, isDirectory).ignored) {
+			alreadyIgnored += 1;
+		}
+	}
+	const description = `matches ${describeMatchCount(matches)}`;
+	return alreadyIgnored ? `${description} (${alreadyIgnored} already ignored)` : description;
+}
+
+async function pickWorkspaceFolder(
+	placeHolder = 'Select a workspace to clean its .gitignore'
+): Promise<vscode.WorkspaceFolder | undefined> {
+	const folders = vscode.workspace.workspaceFolders;
+	if (!folders || folders.length === 0) {
+		const message = 'Open a workspace folder to manage its .gitignore file.';
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage(message);
+		}
+		outputChannel.appendLine(`WARNING: ${message}`);
+		return undefined;
+	}
+	if (folders.length === 1) {
+		return folders[0];
+	}
+	return vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
+
+interface CleanGitignoreResult {
+	lines: string[];
+	duplicatesRemoved: number;
+	// Entries covered by a broader rule, and how many of them were removed
+	redundantEntries: { entry: string; coveredBy: string }[];
+	redundantRemoved: number;
+	emptyLinesRemoved: number;
+	sortedApplied: boolean;
+	baseEntriesAdded: boolean;
+	commentsRemoved: number;
+	// Set when the configured sort would have changed which paths are ignored
+	sortFallback?: 'sections' | 'unsorted';
+	// Paths whose ignore status the clean would change; the clean is not applied when set
+	changedPaths?: string[];
+}
+
+async function cleanGitignoreEntries(
+	lines: string[],
+	options: {
+		sort: boolean;
+		sortMode?: SortMode;
+		removeEmptyLines: boolean;
+		removeComments: boolean;
+		removeRedundant?: boolean;
+		trailingSlashForFolders: boolean;
+		baseUri?: vscode.Uri;
+	},
+	baseEntries: string[]
+): Promise<CleanGitignoreResult> {
+	const trimmed = lines.map((line) => line.trim());
+	const isComment = (line: string) => line.startsWith('#');
+	const isEmpty = (line: string) => line === '';
+
+	const originalEmptyCount = trimmed.filter(isEmpty).length;
+	const originalCommentCount = trimmed.filter(isComment).length;
+
+	const keptLines = trimmed.filter((line) => {
+		if (options.removeEmptyLines && isEmpty(line)) {
+			return false;
+		}
+		if (options.removeComments && isComment(line)) {
+			return false;
+		}
+		return true;
+	});
+
+	type EntryMeta = { hasFolderSyntax: boolean; existsAsDirectory?: boolean };
+	const metaByKey = new Map<string, EntryMeta>();
+	const toKey = (line: string) => stripAnchorsAndSlashes(line);
+
+	const keysToDetect = new Set<string>();
+	for (const line of keptLines) {
+		if (isEmpty(line) || isComment(line) || isPatternLine(line)) {
+			continue;
+		}
+		const key = toKey(line);
+		const current = metaByKey.get(key) ?? { hasFolderSyntax: false };
+		if (line.endsWith('/')) {
+			current.hasFolderSyntax = true;
+		}
+		metaByKey.set(key, current);
+		// Always detect to distinguish real directories from symlinks
+		if (options.baseUri) {
+			keysToDetect.add(key);
+		}
+	}
+
+	if (options.baseUri && keysToDetect.size) {
+		const detections = await detectDirectoriesForKeys(keysToDetect, options.baseUri);
+		for (const [key, isDir] of detections) {
+			const meta = metaByKey.get(key);
+			if (meta) {
+				meta.existsAsDirectory = isDir;
+			}
+		}
+	}
+
+	const normalized: string[] = [];
+	const seenEntryKeys = new Set<string>();
+	const seenPatternKeys = new Set<string>();
+	const firstVariantByKey = new Map<string, { trailingSlash: boolean; anchored: boolean }>();
+	let duplicatesRemoved = 0;
+
+	for (const line of keptLines) {
+		if (isEmpty(line)) {
+			normalized.push('');
+			continue;
+		}
+		if (isComment(line)) {
+			normalized.push(line);
+			continue;
+		}
+		if (isPatternLine(line)) {
+			if (seenPatternKeys.has(line)) {
+				duplicatesRemoved += 1;
+				continue;
+			}
+			seenPatternKeys.add(line);
+			normalized.push(line);
+			continue;
+		}
+
+		const key = toKey(line);
+		const variant = { trailingSlash: line.endsWith('/'), anchored: line.startsWith('/') };
+		if (seenEntryKeys.has(key)) {
+			const first = firstVariantByKey.get(key);
+			const onlyTrailingSlashDiff =
+				!!first && first.trailingSlash !== variant.trailingSlash && options.trailingSlashForFolders === false;
+			if (!onlyTrailingSlashDiff) {
+				duplicatesRemoved += 1;
+			}
+			continue;
+		}
+
+		const meta = metaByKey.get(key);
+		// Prioritize filesystem check: if explicitly false (like symlinks), treat as file
+		const isFolderForKey = meta?.existsAsDirectory === true ||
+		                       (meta?.existsAsDirectory === undefined && !!meta?.hasFolderSyntax);
+		firstVariantByKey.set(key, variant);
+		seenEntryKeys.add(key);
+
+		const canonical = buildCanonicalFromKey(key, isFolderForKey, variant, options);
+		normalized.push(canonical);
+	}
+
+	const commentsRemoved = options.removeComments ? originalCommentCount : 0;
+	const emptyLinesRemoved = options.removeEmptyLines ? originalEmptyCount : 0;
+
+	// Base entries are always kept, even when a broader rule covers them
+	const baseKeys = new Set(baseEntries.map(toKey));
+	const redundant = findRedundantEntries(normalized, { source: 'clean' })
+		.filter((entry) => !baseKeys.has(toKey(normalized[entry.line])))
+		.map((entry) => ({ line: entry.line, entry: normalized[entry.line], coveredBy: entry.coveredBy.pattern }));
+	const redundantLines = new Set(redundant.map((entry) => entry.line));
+	const redundantRemoved = options.removeRedundant ? redundant.length : 0;
+
+	const baseApplied = options.removeRedundant ? normalized.filter((_, index) => !redundantLines.has(index)) : [...normalized];
+	const baseEntriesAdded = enforceBaseEntries(baseApplied, baseEntries);
+
+	let finalLines = baseApplied;
+	let sortedApplied = false;
+	if (options.sort) {
+		const sortMode = options.sortMode ?? 'file';
+		const sorted = sortMode === 'file'
+			? [...baseApplied].sort((left, right) => left.localeCompare(right))
+			: sortSections(baseApplied, sortMode === 'sectionsByHeader');
+		sortedApplied = !arraysEqual(baseApplied, sorted);
+		finalLines = sorted;
+	}
+
+	const preparedLines = options.removeEmptyLines
+		? cleanupLines(finalLines, { collapseEmpty: true, trimTrailing: true })
+		: [...finalLines];
+
+	return {
+		lines: preparedLines,
+		duplicatesRemoved,
+		redundantEntries: redundant.map(({ entry, coveredBy }) => ({ entry, coveredBy })),
+		redundantRemoved,
+		emptyLinesRemoved,
+		sortedApplied,
+		baseEntriesAdded,
+		commentsRemoved
+	};
+}
+
+// Sorts entries within their section only, as found by findIgnoreSections, plus runs of entries without a header.
+// A section's leading comments stay on top, and comments closing it (e.g. template end markers) stay at the
+// bottom. Negations keep their place, since the last match wins.
+function sortSections(lines: string[], orderByHeader: boolean): string[] {
+	interface Section {
+		header: string[];
+		entries: string[];
+		footer: string[];
+	}
+	const isComment = (line: string) => line.startsWith('#');
+	const headedSections = new Map(findIgnoreSections(lines).map((section) => [section.header, section]));
+	const sections: Section[] = [];
+	// Empty lines after each section, or before the first one at index -1
+	const gaps = new Map<number, number>();
+	let current: Section | undefined;
+
+	let index = 0;
+	while (index < lines.length) {
+		if (!lines[index]) {
+			gaps.set(sections.length - 1, (gaps.get(sections.length - 1) ?? 0) + 1);
+			current = undefined;
+			index += 1;
+			continue;
+		}
+		const headed = headedSections.get(index);
+		let next = index;
+		if (headed) {
+			current = { header: lines.slice(headed.header, headed.start), entries: lines.slice(headed.start, headed.end + 1), footer: [] };
+			sections.push(current);
+			next = headed.end + 1;
+		} else if (isComment(lines[index])) {
+			// Comments heading no entries close the section above them, or stand alone
+			while (next < lines.length && isComment(lines[next])) {
+				next += 1;
+			}
+			if (current?.entries.length) {
+				current.footer.push(...lines.slice(index, next));
+			} else {
+				current = { header: lines.slice(index, next), entries: [], footer: [] };
+				sections.push(current);
+			}
+		} else {
+			while (next < lines.length && lines[next] && !isComment(lines[next])) {
+				next += 1;
+			}
+			current = { header: [], entries: lines.slice(index, next), footer: [] };
+			sections.push(current);
+		}
+		index = next;
+	}
+
+	const sortEntries = (entries: string[]) => {
+		const sorted: string[] = [];
+		let run: string[] = [];
+		for (const entry of entries) {
+			if (entry.startsWith('!')) {
+				sorted.push(...run.sort((left, right) => left.localeCompare(right)), entry);
+				run = [];
+			} else {
+				run.push(entry);
+			}
+		}
+		return [...sorted, ...run.sort((left, right) => left.localeCompare(right))];
+	};
+
+	// Sections without a header lead, as they usually hold ungrouped entries; comment-only blocks stay in place
+	const headerKey = (section: Section) => section.header.map((line) => line.replace(/^#+\s*/, '')).join('\n');
+	const ordered = [...sections];
+	if (orderByHeader) {
+		const slots = sections.flatMap((section, slot) => (section.entries.length ? [slot] : []));
+		const movable = slots.map((slot) => sections[slot]).sort((left, right) => headerKey(left).localeCompare(headerKey(right)));
+		slots.forEach((slot, index) => {
+			ordered[slot] = movable[index];
+		});
+	}
+
+	const result: string[] = new Array<string>(gaps.get(-1) ?? 0).fill('');
+	ordered.forEach((section, slot) => {
+		result.push(...section.header, ...sortEntries(section.entries), ...section.footer);
+		// Reordered sections are always separated, since the comment that delimited them may have moved
+		const gap = gaps.get(slot) ?? 0;
+		const separated = orderByHeader && slot < ordered.length - 1 ? Math.max(gap, 1) : gap;
+		result.push(...new Array<string>(separated).fill(''));
+	});
+	return result;
+}
+
+// Only the inside of the managed block is cleaned; hand-written lines around it are left untouched
+async function cleanManagedBlock(
+	lines: string[],
+	options: Parameters<typeof cleanGitignoreEntries>[1],
+	baseEntries: string[]
+): Promise<CleanGitignoreResult> {
+	const block = findManagedBlock(lines);
+	const before = block ? lines.slice(0, block.start) : [...lines];
+	const inside = block ? lines.slice(block.start + 1, block.end) : [];
+	const after = block ? lines.slice(block.end + 1) : [];
+	const outside = [...before, ...after];
+
+	// Base entries written by hand outside the block stay where they are
+	const missingBaseEntries = baseEntries.filter((entry) => !findMatchingEntry(outside, [entry]));
+	const result = await cleanGitignoreEntries(inside, options, missingBaseEntries);
+
+	const toKey = (line: string) => (isPatternLine(line) ? line : stripAnchorsAndSlashes(line));
+	const outsideKeys = new Set(
+		outside
+			.map((line) => line.trim())
+			.filter((line) => line && !line.startsWith('#'))
+			.map(toKey)
+	);
+	let duplicatesRemoved = result.duplicatesRemoved;
+	const blockLines = result.lines.filter((line) => {
+		if (!line || line.startsWith('#') || !outsideKeys.has(toKey(line))) {
+			return true;
+		}
+		duplicatesRemoved += 1;
+		return false;
+	});
+
+	if (!block && !blockLines.length) {
+		return { ...result, lines: [...lines], duplicatesRemoved };
+	}
+	const managedLines = [MANAGED_BLOCK_START, ...blockLines, MANAGED_BLOCK_END];
+	const rebuilt = block
+		? [...before, ...managedLines, ...after]
+		: [...cleanupLines(before), ...(before.some((line) => line.trim()) ? [''] : []), ...managedLines];
+	return { ...result, lines: rebuilt, duplicatesRemoved };
+}
+
+async function updateIgnoreFileEditorContext(editor: vscode.TextEditor | undefined | null): Promise<void> {
+	let isIgnoreFile = editor ? isIgnoreFileDocument(editor.document) : false;
+	if (editor && !isIgnoreFile && editor.document.uri.scheme === 'file') {
+		const globalUri = await getGlobalExcludesFile();
+		isIgnoreFile = globalUri.fsPath === editor.document.uri.fsPath;
+	}
+	await vscode.commands.executeCommand('setContext', IGNORE_FILE_EDITOR_CONTEXT, isIgnoreFile);
+}
+
+function isIgnoreFileDocument(document: vscode.TextDocument | undefined): boolean {
+	if (!document || document.uri.scheme !== 'file') {
+		return false;
+	}
+	const fsPath = document.uri.fsPath;
+	if (path.basename(fsPath) === 'exclude' && path.basename(path.dirname(fsPath)) === 'info') {
+		// Exact resolution happens when the clean command runs
+		return true;
+	}
+	if (path.basename(fsPath) !== '.gitignore') {
+		return false;
+	}
+	return !!vscode.workspace.getWorkspaceFolder(document.uri);
+}
+
+function isWorkspaceRootGitignore(gitignoreUri: vscode.Uri, workspace: vscode.WorkspaceFolder): boolean {
+	return path.relative(workspace.uri.fsPath, gitignoreUri.fsPath) === '.gitignore';
+}
+
+function shouldShowDecorations(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('showDecorations', false);
+}
+
+function shouldSuggestOnStartup(): boolean {
+	return vscode.workspace.getConfiguration('gitignoreAssistant').get<boolean>('suggestOnStartup', false);
+}
+
+function shouldUseManagedBlock(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('useManagedBlock', false);
+}
+
+function shouldPreviewChanges(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('previewChanges', false);
+}
+
+function shouldShowCodeLens(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('showCodeLens', false);
+}
+
+function getLintSeverities(workspace?: vscode.WorkspaceFolder): Record<LintRuleId, LintSeverity> {
+	const configured = vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<Partial<Record<LintRuleId, LintSeverity>>>('lintSeverity', {});
+	return { ...DEFAULT_LINT_SEVERITY, ...configured };
+}
+
+function shouldSortWhenCleaning(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('sortWhenCleaning', false);
+}
+
+function getSortMode(workspace?: vscode.WorkspaceFolder): SortMode {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<SortMode>('sortMode', 'file');
+}
+
+function shouldRemoveEmptyLines(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('removeEmptyLines', false);
+}
+
+function shouldRemoveComments(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('removeComments', false);
+}
+
+function shouldRemoveRedundantEntries(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('removeRedundantEntries', false);
+}
+
+function getBaseEntries(workspace?: vscode.WorkspaceFolder): string[] {
+	const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', workspace?.uri);
+	const normalized = normalizeBaseEntries(configuration.get<unknown>('baseEntries'));
+	if (normalized.length === 0) {
+		const inspect = configuration.inspect<unknown>('baseEntries');
+		const hasOverride =
+			inspect?.workspaceFolderValue !== undefined ||
+			inspect?.workspaceValue !== undefined ||
+			inspect?.globalValue !== undefined;
+		return hasOverride ? [] : [...DEFAULT_BASE_ENTRIES];
+	}
+	return normalized;
+}
+
+function normalizeBaseEntries(raw: unknown): string[] {
+	if (!Array.isArray(raw)) {
+		return [...DEFAULT_BASE_ENTRIES];
+	}
+	const normalized: string[] = [];
+	const seen = new Set<string>();
+	for (const value of raw) {
+		if (typeof value !== 'string') {
+			continue;
+		}
+		const trimmed = value.trim();
+		if (!trimmed || seen.has(trimmed)) {
+			continue;
+		}
+		normalized.push(trimmed);
+		seen.add(trimmed);
+	}
+	return normalized;
+}
+
+// Lists the workspace paths once, so several proposed versions of an ignore file can be checked against the current one
+async function loadIgnoreComparison(
+	target: IgnoreFileTarget,
+	workspace: vscode.WorkspaceFolder,
+	before: string[],
+	// Editor features reuse the linter's folder listings; commands read the disk afresh
+	cached = false
+): Promise<IgnoreComparison | undefined> {
+	// The global excludes file applies to every repository, so there is no single file list to compare
+	if (!target.baseUri) {
+		return undefined;
+	}
+	const probe = target.kind === 'exclude' ? vscode.Uri.joinPath(target.baseUri, '.gitignore') : target.uri;
+	const ruleContext = await loadIgnoreRulesForTarget(probe, workspace);
+	const { lowerPrecedenceRules, higherPrecedenceRules } = splitRulesByPrecedence(ruleContext.rules, target.uri);
+	const basePath = path.relative(ruleContext.rootUri.fsPath, target.baseUri.fsPath).split(path.sep).join('/');
+	const toRules = (lines: string[]) => [
+		...lowerPrecedenceRules,
+		...parseIgnoreRules(lines, { source: target.uri.toString(), basePath }),
+		...higherPrecedenceRules
+	];
+	const beforeRules = toRules(before);
+
+	// Folders ignored now are not entered: if one is no longer ignored, the folder itself shows up as changed
+	const paths = await listRepositoryPaths(
+		ruleContext.rootUri,
+		basePath,
+		(directory) => checkIgnored(beforeRules, directory, true).ignored,
+		cached ? getDirectoryListings(ruleContext.rootUri) : undefined
+	);
+	return {
+		paths,
+		ignoredBefore: new Set(paths ? listIgnoredPaths(beforeRules, paths) : []),
+		toRules
+	};
+}
+
+// False when the proposed lines change which paths are ignored, or when there are too many paths to tell
+function keepsIgnoredPaths(comparison: IgnoreComparison | undefined, after: string[]): boolean {
+	if (!comparison) {
+		return true;
+	}
+	return !!comparison.paths && !findChangedIgnoredPaths(comparison, after).length;
+}
+
+// Paths whose ignore status would differ with the proposed lines
+function findChangedIgnoredPaths(comparison: IgnoreComparison, after: string[]): string[] {
+	if (!comparison.paths) {
+		return [];
+	}
+	const ignoredAfter = new Set(listIgnoredPaths(comparison.toRules(after), comparison.paths));
+	return comparison.paths.filter((value) => comparison.ignoredBefore.has(value) !== ignoredAfter.has(value));
+}
+
+function presentCleaningSummary(target: IgnoreFileTarget, result: CleanGitignoreResult): void {
+	if (result.changedPaths?.length) {
+		const count = result.changedPaths.length;
+		const shown = result.changedPaths.slice(0, 3).map((value) => `"${value}"`);
+		const list = count > shown.length ? `${shown.join(', ')}, and ${count - shown.length} more` : formatSummaryList(shown);
+		const message = `${ignoreFileLabel(target.kind)} was not cleaned: it would change whether ${count} ${count === 1 ? 'path is' : 'paths are'} ignored (${list}).`;
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage(message);
+		}
+		outputChannel.appendLine(`WARNING: ${message}`);
+		result.changedPaths.forEach((value) => outputChannel.appendLine(`WARNING: Ignore status would change for "${value}"`));
+		return;
+	}
+
+	const updates = describeCleaningResult(result);
+	const detail = updates.length ? `: ${formatSummaryList(updates)}` : '';
+	const kept = result.redundantEntries.length - result.redundantRemoved;
+	const keptDetail = kept
+		? ` ${kept} redundant ${kept === 1 ? 'entry is' : 'entries are'} covered by broader rules; enable "Remove Redundant Entries" to remove them.`
+		: '';
+	const message = `Cleaned ${ignoreFileLabel(target.kind)}${detail}.${keptDetail}`;
+
+	if (shouldShowNotifications()) {
+		vscode.window.showInformationMessage(message);
+	}
+	outputChannel.appendLine(`INFO: ${message}`);
+}
+
+function describeCleaningResult(result: CleanGitignoreResult): string[] {
+	const updates: string[] = [];
+	if (result.duplicatesRemoved) {
+		const suffix = result.duplicatesRemoved === 1 ? '' : 's';
+		updates.push(`${result.duplicatesRemoved} duplicate${suffix}`);
+	}
+	if (result.redundantRemoved) {
+		updates.push(`${result.redundantRemoved} redundant ${result.redundantRemoved === 1 ? 'entry' : 'entries'}`);
+	}
+	if (result.emptyLinesRemoved) {
+		const suffix = result.emptyLinesRemoved === 1 ? '' : 's';
+		updates.push(`${result.emptyLinesRemoved} empty line${suffix}`);
+	}
+	if (result.commentsRemoved) {
+		const suffix = result.commentsRemoved === 1 ? '' : 's';
+		updates.push(`${result.commentsRemoved} comment${suffix}`);
+	}
+	if (result.sortedApplied) {
+		updates.push(result.sortFallback === 'sections' ? 'sorted within sections to keep negations effective' : 'sorted alphabetically');
+	} else if (result.sortFallback === 'unsorted') {
+		updates.push('not sorted to keep negations effective');
+	}
+	if (result.baseEntriesAdded) {
+		updates.push('added base entries');
+	}
+	return updates;
+}
+
+function formatSummaryList(values: string[]): string {
+	if (values.length === 1) {
+		return values[0];
+	}
+	if (values.length === 2) {
+		return `${values[0]} and ${values[1]}`;
+	}
+	const head = values.slice(0, -1).join(', ');
+	const tail = values[values.length - 1];
+	return `${head}, and ${tail}`;
+}
+
+async function performGitignoreUpdate(
+	targetUris: vscode.Uri[],
+	mode: UpdateMode,
+	handler: GitignoreOperation,
+	forcedChoice?: GitignoreTargetChoice | Map<vscode.WorkspaceFolder, GitignoreTargetChoice>
+): Promise<void> {
+	const { grouped, outsideWorkspace } = groupByWorkspace(targetUris);
+
+	if (!grouped.size) {
+		const message = 'Selected items must belong to an open workspace folder.';
+		if (shouldShowNotifications()) {
+			vscode.window.showErrorMessage(message);
+		}
+		outputChannel.appendLine(`ERROR: ${message}`);
+		return;
+	}
+
+	const choices = forcedChoice instanceof Map
+		? forcedChoice
+		: forcedChoice
+		? new Map([...grouped.keys()].map((workspace) => [workspace, forcedChoice] as const))
+		: await resolveGitignoreTargetChoices(grouped, mode);
+	if (!choices) {
+		return;
+	}
+
+	const results: OperationResult[] = [];
+	const targetGroups = new Map<string, { workspace: vscode.WorkspaceFolder; target: IgnoreFileTarget; uris: vscode.Uri[] }>();
+	// Tracked files that the entries written by this update now ignore
+	const trackedGroups: TrackedFileGroup[] = [];
+
+	for (const [workspace, uris] of grouped) {
+		const choice = choices.get(workspace);
+		if (!choice) {
+			continue;
+		}
+		for (const uri of uris) {
+			try {
+				const target = await resolveIgnoreFileTarget(uri, workspace, choice);
+				const key = target.uri.toString();
+				const group = targetGroups.get(key);
+				if (group) {
+					group.uris.push(uri);
+				} else {
+					targetGroups.set(key, { workspace, target, uris: [uri] });
+				}
+			} catch (error) {
+				results.push({
+					entry: toDisplayPath(workspace, uri),
+					status: 'error',
+					workspaceName: workspaceLabel(workspace),
+					detail: toErrorMessage(error)
+				});
+			}
+		}
+	}
+
+	for (const { workspace, target, uris } of targetGroups.values()) {
+		const baseEntries = getBaseEntriesForTarget(target, workspace);
+		const state = await loadOrCreateGitignore(target, baseEntries, shouldUseManagedBlock(workspace));
+		const previousLines = [...state.lines];
+		const groupResults: OperationResult[] = [];
+		let discarded = false;
+
+		for (const uri of uris) {
+			try {
+				const result = await handler(state, uri, workspace, baseEntries);
+				groupResults.push(result);
+			} catch (error) {
+				groupResults.push({
+					entry: toDisplayPath(workspace, uri),
+					status: 'error',
+					workspaceName: workspaceLabel(workspace),
+					detail: toErrorMessage(error)
+				});
+			}
+		}
+
+		state.dirty = enforceBaseEntries(state.lines, baseEntries, state.managed) || state.dirty;
+		const cleaned = cleanupLines(state.lines);
+		if (!arraysEqual(cleaned, state.lines)) {
+			state.lines = cleaned;
+			state.dirty = true;
+		}
+
+		if (state.dirty && shouldPreviewChanges(workspace)) {
+			const changes = (['added', 'removed'] as const)
+				.map((status) => ({ status, count: groupResults.filter((result) => result.status === status).length }))
+				.filter(({ count }) => count)
+				.map(({ status, count }) => (mode === 'unignore' ? `${count} ${pluralizePath(count)} re-included` : `${count} ${pluralizeEntry(count)} ${status}`));
+			const verb = mode === 'unignore' ? 'Re-include' : capitalize(mode);
+			const title = `${verb} in ${ignoreFileLabel(target.kind)}${changes.length ? `: ${formatSummaryList(changes)}` : ''}`;
+			if (!(await confirmWithPreview(state.uri, state.lines, title))) {
+				state.dirty = false;
+				discarded = true;
+				for (const result of groupResults) {
+					if (result.status === 'added' || result.status === 'removed') {
+						result.status = 'skipped';
+						result.detail = 'Change discarded in preview.';
+					}
+				}
+			}
+		}
+
+		if (state.dirty) {
+			await writeIgnoreFile(state.uri, state.lines);
+		}
+		if (mode === 'add' && !discarded && !arraysEqual(previousLines, state.lines)) {
+			const tracked = await findTrackedFilesIgnoredByChange(state, previousLines, uris[0], workspace);
+			if (tracked) {
+				trackedGroups.push(tracked);
+			}
+		}
+		results.push(...groupResults);
+	}
+
+	refreshIgnoreDecorations();
+
+	if (outsideWorkspace.length) {
+		const message = `${outsideWorkspace.length} item(s) were skipped because they are outside the current workspace.`;
+		if (shouldShowNotifications()) {
+			vscode.window.showWarningMessage(message);
+		}
+		outputChannel.appendLine(`WARNING: ${message}`);
+	}
+
+	const untracked = trackedGroups.length ? await offerToUntrack(trackedGroups, results) : [];
+	presentSummary(results, mode, untracked);
+}
+
+function groupByWorkspace(uris: vscode.Uri[]): { grouped: Map<vscode.WorkspaceFolder, vscode.Uri[]>; outsideWorkspace: vscode.Uri[] } {
+	const grouped = new Map<vscode.WorkspaceFolder, vscode.Uri[]>();
+	const outsideWorkspace: vscode.Uri[] = [];
+
+	for (const uri of uris) {
+		const workspace = vscode.workspace.getWorkspaceFolder(uri);
+		if (!workspace) {
+			outsideWorkspace.push(uri);
+			continue;
+		}
+		const list = grouped.get(workspace);
+		if (list) {
+			list.push(uri);
+		} else {
+			grouped.set(workspace, [uri]);
+		}
+	}
+	return { grouped, outsideWorkspace };
+}
+
+async function resolveGitignoreTargetChoices(
+	grouped: Map<vscode.WorkspaceFolder, vscode.Uri[]>,
+	mode: UpdateMode
+): Promise<Map<vscode.WorkspaceFolder, GitignoreTargetChoice> | undefined> {
+	// Each workspace folder follows its own gitignoreTarget setting; only the folders left undecided share one prompt
+	const choices = new Map<vscode.WorkspaceFolder, GitignoreTargetChoice>();
+	const undecided: [vscode.WorkspaceFolder, vscode.Uri[]][] = [];
+	const nearestUris: vscode.Uri[] = [];
+	for (const [workspace, uris] of grouped) {
+		const setting = getGitignoreTargetSetting(workspace);
+		if (setting === 'root' || setting === 'nearest') {
+			choices.set(workspace, { kind: setting });
+			continue;
+		}
+
+		const workspaceNearest: vscode.Uri[] = [];
+		for (const uri of uris) {
+			const nearest = await findNearestGitignore(uri, workspace);
+			if (!isWorkspaceRootGitignore(nearest, workspace)) {
+				workspaceNearest.push(nearest);
+			}
+		}
+		if (setting === 'auto' && !workspaceNearest.length) {
+			choices.set(workspace, { kind: 'root' });
+			continue;
+		}
+		undecided.push([workspace, uris]);
+		nearestUris.push(...workspaceNearest);
+	}
+
+	if (undecided.length) {
+		const [firstWorkspace, firstUris] = undecided[0];
+		const choice = await pickGitignoreTarget(firstWorkspace, firstUris[0], nearestUris, mode);
+		if (!choice) {
+			return undefined;
+		}
+		undecided.forEach(([workspace]) => choices.set(workspace, choice));
+	}
+	return choices;
+}
+
+async function pickGitignoreTarget(
+	workspace: vscode.WorkspaceFolder,
+	firstTarget: vscode.Uri,
+	nearestUris: vscode.Uri[],
+	mode: UpdateMode
+): Promise<GitignoreTargetChoice | undefined> {
+	// The folder item has no choice until a folder is picked
+	type TargetItem = vscode.QuickPickItem & { choice?: GitignoreTargetChoice };
+	const distinctNearest = dedupeUris(nearestUris);
+	const items: TargetItem[] = [];
+	if (distinctNearest.length) {
+		items.push({
+			choice: { kind: 'nearest' },
+			label: 'Nearest .gitignore',
+			description: distinctNearest.length === 1
+				? vscode.workspace.asRelativePath(distinctNearest[0])
+				: 'Closest .gitignore above each selected item'
+		});
+	}
+	items.push({
+		choice: { kind: 'root' },
+		label: 'Workspace root .gitignore',
+		description: vscode.workspace.asRelativePath(vscode.Uri.joinPath(workspace.uri, '.gitignore'))
+	});
+	if (mode === 'add') {
+		items.push({
+			label: 'New .gitignore in folder…',
+			description: 'Choose the folder that should receive the entries'
+		});
+	}
+	if (await findGitRepository(vscode.Uri.file(path.dirname(firstTarget.fsPath)))) {
+		items.push({
+			choice: { kind: 'exclude' },
+			label: 'Local exclude',
+			description: '.git/info/exclude, not shared with the repository'
+		});
+	}
+	items.push({
+		choice: { kind: 'global' },
+		label: 'Global excludes file',
+		description: toHomeRelativePath((await getGlobalExcludesFile()).fsPath)
+	});
+
+	const picked = await vscode.window.showQuickPick(items, {
+		placeHolder: mode === 'add' ? 'Select the .gitignore to add entries to' : 'Select the .gitignore to remove entries from'
+	});
+	if (!picked) {
+		return undefined;
+	}
+	if (picked.choice) {
+		return picked.choice;
+	}
+
+	const folders = await vscode.window.showOpenDialog({
+		canSelectFiles: false,
+		canSelectFolders: true,
+		canSelectMany: false,
+		defaultUri: vscode.Uri.file(path.dirname(firstTarget.fsPath)),
+		openLabel: 'Use this folder'
+	});
+	if (!folders || !folders.length) {
+		return undefined;
+	}
+	return { kind: 'folder', folderUri: folders[0] };
+}
+
+async function resolveIgnoreFileTarget(
+	target: vscode.Uri,
+	workspace: vscode.WorkspaceFolder,
+	choice: GitignoreTargetChoice
+): Promise<IgnoreFileTarget> {
+	if (choice.kind === 'global') {
+		return { uri: await getGlobalExcludesFile(), kind: 'global' };
+	}
+	if (choice.kind === 'exclude') {
+		const repository = await findGitRepository(vscode.Uri.file(path.dirname(target.fsPath)));
+		if (!repository) {
+			throw new Error('Selected item is not inside a Git repository.');
+		}
+		return { uri: getLocalExcludeUri(repository), baseUri: repository.workTreeUri, kind: 'exclude' };
+	}
+
+	let gitignoreUri: vscode.Uri;
+	if (choice.kind === 'root') {
+		gitignoreUri = vscode.Uri.joinPath(workspace.uri, '.gitignore');
+	} else if (choice.kind === 'nearest') {
+		gitignoreUri = await findNearestGitignore(target, workspace);
+	} else {
+		if (!isPathInside(choice.folderUri.fsPath, workspace.uri.fsPath)) {
+			throw new Error('The chosen folder is not inside the workspace.');
+		}
+		if (!isPathInside(target.fsPath, choice.folderUri.fsPath) || target.fsPath === choice.folderUri.fsPath) {
+			throw new Error('Selected item is not inside the chosen folder.');
+		}
+		gitignoreUri = vscode.Uri.joinPath(choice.folderUri, '.gitignore');
+	}
+	return { uri: gitignoreUri, baseUri: vscode.Uri.joinPath(gitignoreUri, '..'), kind: 'gitignore' };
+}
+
+async function findNearestGitignore(target: vscode.Uri, workspace: vscode.WorkspaceFolder): Promise<vscode.Uri> {
+	const rootPath = workspace.uri.fsPath;
+	// A .gitignore inside a folder cannot ignore the folder itself, so start from the parent
+	let directory = path.dirname(target.fsPath);
+	while (isPathInside(directory, rootPath) && directory !== rootPath) {
+		const candidate = vscode.Uri.file(path.join(directory, '.gitignore'));
+		if (await isExistingFile(candidate)) {
+			return candidate;
+		}
+		directory = path.dirname(directory);
+	}
+	return vscode.Uri.joinPath(workspace.uri, '.gitignore');
+}
+
+// Ignoring a path has no effect on files Git already tracks, so offer to remove them from the index
+async function offerToUntrack(tracked: TrackedFileGroup[], results: OperationResult[]): Promise<string[]> {
+	const files = tracked.flatMap((group) => group.files);
+	if (!files.length) {
+		return [];
+	}
+
+	const action = 'Stop tracking (keep local copy)';
+	const subject = files.length === 1 ? `"${files[0]}" is` : `${files.length} files are`;
+	const shown = files.slice(0, UNTRACK_DETAIL_LIMIT);
+	const choice = await vscode.window.showWarningMessage(
+		`${subject} already tracked by Git. Ignore rules only apply to untracked files.`,
+		{
+			modal: true,
+			detail: `${shown.join('\n')}${files.length > shown.length ? `\n…and ${files.length - shown.length} more` : ''}`
+		},
+		action
+	);
+	if (choice !== action) {
+		outputChannel.appendLine(`INFO: Kept ${files.length} tracked ${files.length === 1 ? 'file' : 'files'} in the index.`);
+		return [];
+	}
+
+	const untracked: string[] = [];
+	for (const group of tracked) {
+		// Batches keep the command line short when a pattern covers many files
+		for (let start = 0; start < group.files.length; start += UNTRACK_BATCH_SIZE) {
+			const batch = group.files.slice(start, start + UNTRACK_BATCH_SIZE);
+			try {
+				// Equivalent of `git rm --cached`: files leave the index but stay on disk
+				await runGit(['--literal-pathspecs', 'rm', '--cached', '-q', '--', ...batch], group.repository.workTreeUri.fsPath);
+				untracked.push(...batch);
+			} catch (error) {
+				results.push({
+					entry: formatSummaryList(batch.length > 3 ? [...batch.slice(0, 3), `${batch.length - 3} more`] : batch),
+					status: 'error',
+					workspaceName: group.workspaceName,
+					detail: `Unable to stop tracking: ${toErrorMessage(error)}`
+				});
+			}
+		}
+	}
+	return untracked;
+}
+
+// Tracked files that the lines added to an ignore file now ignore. Paths are relative to the work tree.
+async function findTrackedFilesIgnoredByChange(
+	state: GitignoreState,
+	previousLines: string[],
+	resourceUri: vscode.Uri,
+	workspace: vscode.WorkspaceFolder
+): Promise<TrackedFileGroup | undefined> {
+	const repository = await findGitRepository(state.baseUri ?? vscode.Uri.file(path.dirname(resourceUri.fsPath)));
+	if (!repository) {
+		return undefined;
+	}
+	const rootPath = repository.workTreeUri.fsPath;
+	const basePath = state.kind === 'gitignore' && state.baseUri
+		? path.relative(rootPath, state.baseUri.fsPath).split(path.sep).join('/')
+		: '';
+	const previous = new Set(previousLines.map((line) => line.trim()));
+	const addedRules = parseIgnoreRules(
+		state.lines.filter((line) => !previous.has(line.trim())),
+		{ source: state.uri.toString(), basePath }
+	).filter((rule) => !rule.negated);
+	if (!addedRules.length) {
+		return undefined;
+	}
+
+	let output: string;
+	try {
+		output = await runGit(['--literal-pathspecs', 'ls-files', '-z', '--cached', '--', ...(basePath ? [basePath] : [])], rootPath);
+	} catch (error) {
+		outputChannel.appendLine(`WARNING: Unable to list tracked files in "${rootPath}": ${toErrorMessage(error)}`);
+		return undefined;
+	}
+
+	// Only files an added rule matches, directly or through a parent folder, can have changed
+	const matchesAddedRule = (file: string) => {
+		const segments = file.split('/');
+		return addedRules.some((rule) =>
+			ruleMatches(rule, file, false) ||
+			segments.slice(0, -1).some((_, index) => ruleMatches(rule, segments.slice(0, index + 1).join('/'), true))
+		);
+	};
+	const cache: IgnoreFileCache = { lines: new Map(), repositories: new Map() };
+	const files: string[] = [];
+	for (const file of output.split('\0').filter(Boolean)) {
+		if (!matchesAddedRule(file)) {
+			continue;
+		}
+		// Negations and nested ignore files may still keep the file included
+		const fileUri = vscode.Uri.joinPath(repository.workTreeUri, ...file.split('/'));
+		const ruleContext = await loadIgnoreRulesForTarget(fileUri, workspace, state, cache);
+		if (checkIgnored(ruleContext.rules, ruleContext.relativePath, false).ignored) {
+			files.push(file);
+		}
+	}
+	return files.length ? { repository, workspaceName: workspaceLabel(workspace), files } : undefined;
+}
+
+function runGit(args: string[], cwd: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		childProcess.execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) {
+				reject(new Error(stderr.trim() || error.message));
+				return;
+			}
+			resolve(stdout);
+		});
+	});
+}
+
+async function findGitRepository(startDirectory: vscode.Uri): Promise<GitRepository | undefined> {
+	let directory = startDirectory.fsPath;
+	for (;;) {
+		const dotGitUri = vscode.Uri.file(path.join(directory, '.git'));
+		let stat: vscode.FileStat | undefined;
+		try {
+			stat = await vscode.workspace.fs.stat(dotGitUri);
+		} catch {
+			stat = undefined;
+		}
+
+		if (stat) {
+			const workTreeUri = vscode.Uri.file(directory);
+			if ((stat.type & vscode.FileType.Directory) === vscode.FileType.Directory) {
+				return { workTreeUri, gitDirUri: dotGitUri, commonDirUri: dotGitUri };
+			}
+			// Worktrees and submodules use a .git file pointing at the real git directory
+			const gitDirUri = await readGitDirPointer(dotGitUri, directory);
+			if (gitDirUri) {
+				const commonDirUri = (await readCommonDir(gitDirUri)) ?? gitDirUri;
+				return { workTreeUri, gitDirUri, commonDirUri };
+			}
 		}
-		normalized.push(trimmed);
-		seen.add(trimmed);
+
+		const parent = path.dirname(directory);
+		if (parent === directory) {
+			return undefined;
+		}
+		directory = parent;
 	}
-	return normalized;
 }
 
-function presentCleaningSummary(workspace: vscode.WorkspaceFolder, result: CleanGitignoreResult): void {
-	const updates: string[] = [];
-	if (result.duplicatesRemoved) {
-		const suffix = result.duplicatesRemoved === 1 ? '' : 's';
-		updates.push(`${result.duplicatesRemoved} duplicate${suffix}`);
-	}
-	if (result.emptyLinesRemoved) {
-		const suffix = result.emptyLinesRemoved === 1 ? '' : 's';
-		updates.push(`${result.emptyLinesRemoved} empty line${suffix}`);
-	}
-	if (result.commentsRemoved) {
-		const suffix = result.commentsRemoved === 1 ? '' : 's';
-		updates.push(`${result.commentsRemoved} comment${suffix}`);
-	}
-	if (result.sortedApplied) {
-		updates.push('sorted alphabetically');
+async function readGitDirPointer(dotGitUri: vscode.Uri, directory: string): Promise<vscode.Uri | undefined> {
+	try {
+		const content = textDecoder.decode(await vscode.workspace.fs.readFile(dotGitUri));
+		const match = /^gitdir:\s*(.+)$/m.exec(content);
+		if (!match) {
+			return undefined;
+		}
+		return vscode.Uri.file(path.resolve(directory, match[1].trim()));
+	} catch {
+		return undefined;
 	}
-	if (result.baseEntriesAdded) {
-		updates.push('added base entries');
+}
+
+async function readCommonDir(gitDirUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+	try {
+		const content = textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(gitDirUri, 'commondir')));
+		const value = content.trim();
+		return value ? vscode.Uri.file(path.resolve(gitDirUri.fsPath, value)) : undefined;
+	} catch {
+		return undefined;
 	}
+}
 
-	const detail = updates.length ? `: ${formatSummaryList(updates)}` : '';
-	const message = `Cleaned .gitignore${detail}.`;
+function getLocalExcludeUri(repository: GitRepository): vscode.Uri {
+	// Linked worktrees share the info/exclude file of the main repository
+	return vscode.Uri.joinPath(repository.commonDirUri, 'info', 'exclude');
+}
 
-	if (shouldShowNotifications()) {
-		vscode.window.showInformationMessage(message);
+function getGlobalExcludesFile(): Promise<vscode.Uri> {
+	return memoize(globalExcludesCache, getGitConfigFiles().join('\0'), resolveGlobalExcludesFile);
+}
+
+function getGitConfigFiles(): string[] {
+	const home = os.homedir();
+	const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+	// Git reads the XDG config first, so values in ~/.gitconfig take precedence
+	return [path.join(xdgConfigHome, 'git', 'config'), path.join(home, '.gitconfig')];
+}
+
+function registerGitConfigWatcher(context: vscode.ExtensionContext): void {
+	const invalidate = () => {
+		globalExcludesCache.clear();
+		globalExcludesChangeEmitter.fire();
+		refreshIgnoreDecorations();
+		void updateIgnoreFileEditorContext(vscode.window.activeTextEditor);
+	};
+	context.subscriptions.push(globalExcludesChangeEmitter);
+	for (const configFile of getGitConfigFiles()) {
+		// Config files live outside the workspace
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(vscode.Uri.file(path.dirname(configFile)), path.basename(configFile))
+		);
+		context.subscriptions.push(watcher, watcher.onDidChange(invalidate), watcher.onDidCreate(invalidate), watcher.onDidDelete(invalidate));
 	}
-	outputChannel.appendLine(`INFO: ${message}`);
 }
 
-function formatSummaryList(values: string[]): string {
-	if (values.length === 1) {
-		return values[0];
+async function resolveGlobalExcludesFile(): Promise<vscode.Uri> {
+	const home = os.homedir();
+	const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+	const configFiles = getGitConfigFiles();
+
+	let excludesFile: string | undefined;
+	for (const configFile of configFiles) {
+		try {
+			const content = textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.file(configFile)));
+			excludesFile = parseGitConfigValue(content, 'core', 'excludesfile') ?? excludesFile;
+		} catch {
+			// Missing config files are expected
+		}
 	}
-	if (values.length === 2) {
-		return `${values[0]} and ${values[1]}`;
+
+	if (excludesFile) {
+		const expanded = excludesFile.startsWith('~/') ? path.join(home, excludesFile.slice(2)) : excludesFile;
+		return vscode.Uri.file(path.resolve(home, expanded));
 	}
-	const head = values.slice(0, -1).join(', ');
-	const tail = values[values.length - 1];
-	return `${head}, and ${tail}`;
+	return vscode.Uri.file(path.join(xdgConfigHome, 'git', 'ignore'));
 }
 
-async function performGitignoreUpdate(
-	targetUris: vscode.Uri[],
-	mode: 'add' | 'remove',
-	handler: GitignoreOperation
-): Promise<void> {
-	const grouped = new Map<vscode.WorkspaceFolder, vscode.Uri[]>();
-	const outsideWorkspace: vscode.Uri[] = [];
-
-	for (const uri of targetUris) {
-		const workspace = vscode.workspace.getWorkspaceFolder(uri);
-		if (!workspace) {
-			outsideWorkspace.push(uri);
+function parseGitConfigValue(content: string, section: string, key: string): string | undefined {
+	let inSection = false;
+	let value: string | undefined;
+	for (const rawLine of parseLines(content)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#') || line.startsWith(';')) {
 			continue;
 		}
-		const list = grouped.get(workspace);
-		if (list) {
-			list.push(uri);
-		} else {
-			grouped.set(workspace, [uri]);
+		const header = /^\[\s*([^\]\s"]+)\s*("[^"]*")?\s*\]/.exec(line);
+		if (header) {
+			// Subsections such as [core "name"] are distinct from [core]
+			inSection = header[1].toLowerCase() === section && !header[2];
+			continue;
 		}
-	}
-
-	if (!grouped.size) {
-		const message = 'Selected items must belong to an open workspace folder.';
-		if (shouldShowNotifications()) {
-			vscode.window.showErrorMessage(message);
+		if (!inSection) {
+			continue;
+		}
+		const match = /^([A-Za-z][\w-]*)\s*(?:=\s*(.*))?$/.exec(line);
+		if (match && match[1].toLowerCase() === key) {
+			value = unquoteGitConfigValue(match[2] ?? '');
 		}
-		outputChannel.appendLine(`ERROR: ${message}`);
-		return;
 	}
+	return value;
+}
 
-	const results: OperationResult[] = [];
-
-	for (const [workspace, uris] of grouped) {
-		const baseEntries = getBaseEntries(workspace);
-		const state = await loadOrCreateGitignore(workspace, baseEntries);
-
-		for (const uri of uris) {
-			try {
-				const result = await handler(state, uri, workspace, baseEntries);
-				results.push(result);
-			} catch (error) {
-				results.push({
-					entry: toDisplayPath(workspace, uri),
-					status: 'error',
-					workspaceName: workspaceLabel(workspace),
-					detail: toErrorMessage(error)
-				});
-			}
+function unquoteGitConfigValue(raw: string): string {
+	let result = '';
+	let quoted = false;
+	for (let index = 0; index < raw.length; index += 1) {
+		const char = raw[index];
+		if (char === '\\' && index + 1 < raw.length) {
+			const next = raw[index + 1];
+			result += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+			index += 1;
+			continue;
 		}
-
-		state.dirty = enforceBaseEntries(state.lines, baseEntries) || state.dirty;
-		const cleaned = cleanupLines(state.lines);
-		if (!arraysEqual(cleaned, state.lines)) {
-			state.lines = cleaned;
-			state.dirty = true;
+		if (char === '"') {
+			quoted = !quoted;
+			continue;
 		}
-
-		if (state.dirty) {
-			const content = serializeLines(state.lines);
-			await vscode.workspace.fs.writeFile(state.uri, textEncoder.encode(content));
+		if (!quoted && (char === '#' || char === ';')) {
+			break;
 		}
+		result += char;
 	}
+	return result.trim();
+}
 
-	if (outsideWorkspace.length) {
-		const message = `${outsideWorkspace.length} item(s) were skipped because they are outside the current workspace.`;
-		if (shouldShowNotifications()) {
-			vscode.window.showWarningMessage(message);
-		}
-		outputChannel.appendLine(`WARNING: ${message}`);
+function toHomeRelativePath(fsPath: string): string {
+	const home = os.homedir();
+	return isPathInside(fsPath, home) ? `~${path.sep}${path.relative(home, fsPath)}` : fsPath;
+}
+
+function getBaseEntriesForTarget(target: IgnoreFileTarget, workspace: vscode.WorkspaceFolder): string[] {
+	// Base entries only belong in the workspace root .gitignore
+	if (target.kind !== 'gitignore' || !isWorkspaceRootGitignore(target.uri, workspace)) {
+		return [];
 	}
+	return getBaseEntries(workspace);
+}
+
+function ignoreFileLabel(kind: IgnoreFileKind): string {
+	if (kind === 'exclude') {
+		return '.git/info/exclude';
+	}
+	return kind === 'global' ? 'global excludes file' : '.gitignore';
+}
 
-	presentSummary(results, mode);
+function isPathInside(candidate: string, parent: string): boolean {
+	const relative = path.relative(parent, candidate);
+	return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+async function isExistingFile(uri: vscode.Uri): Promise<boolean> {
+	try {
+		const stat = await vscode.workspace.fs.stat(uri);
+		return (stat.type & vscode.FileType.File) === vscode.FileType.File;
+	} catch {
+		return false;
+	}
 }
 
 async function addGitignoreEntry(
@@ -545,7 +3633,7 @@ async function addGitignoreEntry(
 	workspace: vscode.WorkspaceFolder,
 	baseEntries: string[]
 ): Promise<OperationResult> {
-	const info = await buildEntryForAdd(target, workspace);
+	const info = await buildEntryForAdd(target, state.baseUri, workspace);
 	const workspaceName = workspaceLabel(workspace);
 
 	if (baseEntries.includes(info.entry)) {
@@ -557,18 +3645,93 @@ async function addGitignoreEntry(
 		};
 	}
 
-	const added = addEntry(state.lines, info.entry);
-	if (added) {
-		state.dirty = true;
-		return { entry: info.entry, status: 'added', workspaceName };
+	if (findMatchingEntry(state.lines, [info.entry])) {
+		return {
+			entry: info.entry,
+			status: 'skipped',
+			workspaceName,
+			detail: `Entry already exists in ${ignoreFileLabel(state.kind)}.`
+		};
 	}
 
-	return {
-		entry: info.entry,
-		status: 'skipped',
-		workspaceName,
-		detail: 'Entry already exists in .gitignore.'
+	const covered = await checkExistingRules(state, target, workspace, info.entry);
+	if (covered) {
+		return { entry: info.entry, status: 'skipped', workspaceName, detail: covered };
+	}
+	// A no-op when the entry was already placed below a negation
+	addEntry(state.lines, info.entry, state.managed);
+	state.dirty = true;
+	return { entry: info.entry, status: 'added', workspaceName };
+}
+
+// Explains why a new entry would be useless, placing it after a negation instead when that makes it effective.
+// Returns undefined when the entry should be appended as usual.
+async function checkExistingRules(
+	state: GitignoreState,
+	target: vscode.Uri,
+	workspace: vscode.WorkspaceFolder,
+	entry: string
+): Promise<string | undefined> {
+	// Personal excludes do not make an entry useless in a file shared with others
+	const personalSources = new Set<string>();
+	if (state.kind !== 'global') {
+		personalSources.add((await getGlobalExcludesFile()).fsPath);
+	}
+	if (state.kind === 'gitignore') {
+		const repository = await findGitRepository(vscode.Uri.file(path.dirname(target.fsPath)));
+		if (repository) {
+			personalSources.add(getLocalExcludeUri(repository).fsPath);
+		}
+	}
+	const evaluate = async (lines: string[]) => {
+		const context = await loadIgnoreRulesForTarget(target, workspace, { ...state, lines });
+		const rules = context.rules.filter((rule) => !personalSources.has(vscode.Uri.parse(rule.source).fsPath));
+		return { ruleContext: { ...context, rules }, result: checkIgnored(rules, context.relativePath, context.isDirectory) };
 	};
+
+	let current: Awaited<ReturnType<typeof evaluate>>;
+	try {
+		current = await evaluate(state.lines);
+	} catch {
+		return undefined;
+	}
+	const { ruleContext, result } = current;
+	if (result.ignored) {
+		return `Already ignored: ${describeIgnoreResult(ruleContext, result)}`;
+	}
+	if (!result.rule?.negated) {
+		return undefined;
+	}
+
+	const withEntry = [...state.lines];
+	addEntry(withEntry, entry, state.managed);
+	if ((await evaluate(withEntry)).result.ignored) {
+		return undefined;
+	}
+
+	const negation = result.rule;
+	const message = `"${entry}" would have no effect: ${describeIgnoreResult(ruleContext, result)}`;
+	if (vscode.Uri.parse(negation.source).fsPath !== state.uri.fsPath) {
+		return `${message} That file takes precedence over ${ignoreFileLabel(state.kind)}.`;
+	}
+
+	// The last matching rule wins, so the entry only takes effect below the negation
+	const afterNegation = [...state.lines];
+	afterNegation.splice(negation.line, 0, entry);
+	if ((await evaluate(afterNegation)).result.ignored) {
+		const action = 'Add After Negation';
+		const picked = await vscode.window.showWarningMessage(
+			message,
+			{ modal: true, detail: `Adding "${entry}" below line ${negation.line} overrides the negation for this path.` },
+			action
+		);
+		if (picked === action) {
+			state.lines = afterNegation;
+			state.dirty = true;
+			return undefined;
+		}
+	}
+	return message;
 }
 
 async function removeGitignoreEntry(
@@ -577,7 +3740,7 @@ async function removeGitignoreEntry(
 	workspace: vscode.WorkspaceFolder,
 	baseEntries: string[]
 ): Promise<OperationResult> {
-	const info = await buildEntryForRemove(target, workspace);
+	const info = await buildEntryForRemove(target, state.baseUri, workspace);
 	const workspaceName = workspaceLabel(workspace);
 	const candidates = [info.primary, ...info.alternates];
 	const existing = findMatchingEntry(state.lines, candidates);
@@ -603,47 +3766,165 @@ async function removeGitignoreEntry(
 		}
 	}
 
-	return {
-		entry: info.primary,
+	return removeIgnoringRule(state, target, workspace, baseEntries, info.primary);
+}
+
+// Handles targets ignored by a glob or by an excluded parent folder rather than by a literal entry
+async function removeIgnoringRule(
+	state: GitignoreState,
+	target: vscode.Uri,
+	workspace: vscode.WorkspaceFolder,
+	baseEntries: string[],
+	fallbackEntry: string
+): Promise<OperationResult> {
+	const workspaceName = workspaceLabel(workspace);
+	const notFound: OperationResult = {
+		entry: fallbackEntry,
 		status: 'skipped',
 		workspaceName,
-		detail: 'Entry not found in .gitignore.'
+		detail: `Entry not found in ${ignoreFileLabel(state.kind)}.`
 	};
+
+	let ruleContext: IgnoreRuleContext;
+	try {
+		ruleContext = await loadIgnoreRulesForTarget(target, workspace, state);
+	} catch {
+		return notFound;
+	}
+	const result = checkIgnored(ruleContext.rules, ruleContext.relativePath, ruleContext.isDirectory);
+	if (!result.ignored || !result.rule) {
+		return notFound;
+	}
+
+	const rule = result.rule;
+	const explanation = describeIgnoreResult(ruleContext, result);
+	if (vscode.Uri.parse(rule.source).fsPath !== state.uri.fsPath) {
+		return { ...notFound, detail: `${notFound.detail} ${explanation}` };
+	}
+	if (baseEntries.includes(rule.pattern)) {
+		return {
+			entry: rule.pattern,
+			status: 'skipped',
+			workspaceName,
+			detail: `${explanation} This entry is managed automatically and cannot be removed.`
+		};
+	}
+
+	const ruleIndex = rule.line - 1;
+	const withoutRule = state.lines.filter((_, index) => index !== ruleIndex);
+	const candidates: { label: string; detail: string; entry: string; lines: string[] }[] = [];
+
+	if (result.excludedParent) {
+		// Git never looks inside an excluded folder, so a negation cannot help until the parent rule changes
+		const rewritten = `${rule.pattern.replace(/\/+$/, '')}/*`;
+		const message = `${explanation} Git cannot re-include a path inside an excluded folder, so the parent rule has to be rewritten first (for example "${rewritten}" followed by a negation).`;
+		const stillIgnored = await isTargetIgnoredWithLines(target, workspace, state, withoutRule);
+		if (stillIgnored) {
+			return { entry: rule.pattern, status: 'skipped', workspaceName, detail: message };
+		}
+		const action = 'Remove Parent Rule';
+		const picked = await vscode.window.showWarningMessage(message, { modal: true }, action);
+		if (picked !== action) {
+			return { entry: rule.pattern, status: 'skipped', workspaceName, detail: message };
+		}
+		state.lines = withoutRule;
+		state.dirty = true;
+		return { entry: rule.pattern, status: 'removed', workspaceName };
+	}
+
+	candidates.push({
+		label: `Remove rule "${rule.pattern}"`,
+		detail: 'Stops ignoring every path matched by this rule.',
+		entry: rule.pattern,
+		lines: withoutRule
+	});
+
+	if (!rule.anchored && !rule.negated && ruleContext.relativePath.slice(rule.basePath ? rule.basePath.length + 1 : 0).includes('/')) {
+		const narrowed = `/${rule.pattern}`;
+		candidates.push({
+			label: `Narrow rule to "${narrowed}"`,
+			detail: 'Only ignores matches at the top level of this ignore file.',
+			entry: rule.pattern,
+			lines: state.lines.map((line, index) => (index === ruleIndex ? narrowed : line))
+		});
+	}
+
+	const relativeToFile = state.baseUri ? getRelativePath(target, state.baseUri) : path.basename(target.fsPath);
+	const negation = `!${formatGitignoreEntry(relativeToFile, ruleContext.isDirectory, workspace, { anchored: !!state.baseUri })}`;
+	candidates.push({
+		label: `Add negation "${negation}"`,
+		detail: 'Keeps the rule and re-includes only this path.',
+		entry: negation,
+		lines: [...state.lines, negation]
+	});
+
+	const valid: typeof candidates = [];
+	for (const candidate of candidates) {
+		if (!(await isTargetIgnoredWithLines(target, workspace, state, candidate.lines))) {
+			valid.push(candidate);
+		}
+	}
+	if (!valid.length) {
+		return { entry: rule.pattern, status: 'skipped', workspaceName, detail: explanation };
+	}
+
+	const picked = await vscode.window.showQuickPick(valid, {
+		placeHolder: explanation,
+		title: `Stop ignoring "${ruleContext.relativePath}"`
+	});
+	if (!picked) {
+		return { entry: rule.pattern, status: 'skipped', workspaceName, detail: explanation };
+	}
+
+	state.lines = picked.lines;
+	state.dirty = true;
+	return { entry: picked.entry, status: 'removed', workspaceName };
 }
 
-async function loadOrCreateGitignore(
+async function isTargetIgnoredWithLines(
+	target: vscode.Uri,
 	workspace: vscode.WorkspaceFolder,
-	baseEntries: string[]
+	state: GitignoreState,
+	lines: string[]
+): Promise<boolean> {
+	const ruleContext = await loadIgnoreRulesForTarget(target, workspace, { ...state, lines });
+	return checkIgnored(ruleContext.rules, ruleContext.relativePath, ruleContext.isDirectory).ignored;
+}
+
+async function loadOrCreateGitignore(
+	target: IgnoreFileTarget,
+	baseEntries: string[],
+	managed = false
 ): Promise<GitignoreState> {
-	const gitignoreUri = vscode.Uri.joinPath(workspace.uri, '.gitignore');
+	const { uri, baseUri, kind } = target;
 
 	try {
-		const contentBuffer = await vscode.workspace.fs.readFile(gitignoreUri);
-		const content = textDecoder.decode(contentBuffer);
-		const lines = parseLines(content);
-		const dirty = enforceBaseEntries(lines, baseEntries);
-		return { uri: gitignoreUri, lines, dirty };
+		const lines = parseLines(await readIgnoreFileContent(uri));
+		const dirty = enforceBaseEntries(lines, baseEntries, managed);
+		return { uri, baseUri, kind, lines, dirty, managed };
 	} catch (error) {
 		if (isFileNotFound(error)) {
-			const lines = [...baseEntries];
-			const content = serializeLines(lines);
-			await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(content));
-			return { uri: gitignoreUri, lines, dirty: false };
+			const lines = managed && baseEntries.length
+				? [MANAGED_BLOCK_START, ...baseEntries, MANAGED_BLOCK_END]
+				: [...baseEntries];
+			// Written by writeIgnoreFile, so a discarded preview leaves no new file behind
+			return { uri, baseUri, kind, lines, dirty: true, managed };
 		}
 		throw error;
 	}
 }
 
-async function buildEntryForAdd(target: vscode.Uri, workspace: vscode.WorkspaceFolder) {
+async function buildEntryForAdd(target: vscode.Uri, baseUri: vscode.Uri | undefined, workspace: vscode.WorkspaceFolder) {
 	// If any ancestor directory is a symlink, add the symlink itself instead
-	const symlinkAncestor = await resolveSymlinkAncestor(target, workspace);
+	const symlinkAncestor = baseUri ? await resolveSymlinkAncestor(target, baseUri) : undefined;
 	const effectiveTarget = symlinkAncestor ?? target;
 
-	const relativePath = getRelativePath(effectiveTarget, workspace);
+	// Without a base folder (global excludes file) only the name is meaningful
+	const relativePath = baseUri ? getRelativePath(effectiveTarget, baseUri) : path.basename(effectiveTarget.fsPath);
 	const stat = await vscode.workspace.fs.stat(effectiveTarget);
 	// Git treats symlinks as files, not directories, so don't add trailing slash
 	const isDirectory = isRealDirectory(stat);
-	const entry = formatGitignoreEntry(relativePath, isDirectory, workspace);
+	const entry = formatGitignoreEntry(relativePath, isDirectory, workspace, { anchored: !!baseUri });
 	return { entry, relativePath, isDirectory };
 }
 
@@ -660,14 +3941,14 @@ function isRealDirectory(stat: vscode.FileStat): boolean {
 
 async function resolveSymlinkAncestor(
 	target: vscode.Uri,
-	workspace: vscode.WorkspaceFolder
+	baseUri: vscode.Uri
 ): Promise<vscode.Uri | undefined> {
-	const relativePath = path.relative(workspace.uri.fsPath, target.fsPath);
+	const relativePath = path.relative(baseUri.fsPath, target.fsPath);
 	const segments = relativePath.split(path.sep);
 
 	// Walk from root toward target, checking each intermediate ancestor
 	for (let i = 0; i < segments.length - 1; i++) {
-		const ancestorUri = vscode.Uri.joinPath(workspace.uri, ...segments.slice(0, i + 1));
+		const ancestorUri = vscode.Uri.joinPath(baseUri, ...segments.slice(0, i + 1));
 		try {
 			const stat = await vscode.workspace.fs.stat(ancestorUri);
 			if (isSymbolicLink(stat)) {
@@ -681,8 +3962,9 @@ async function resolveSymlinkAncestor(
 	return undefined;
 }
 
-async function buildEntryForRemove(target: vscode.Uri, workspace: vscode.WorkspaceFolder) {
-	const relativePath = getRelativePath(target, workspace);
+async function buildEntryForRemove(target: vscode.Uri, baseUri: vscode.Uri | undefined, workspace: vscode.WorkspaceFolder) {
+	const relativePath = baseUri ? getRelativePath(target, baseUri) : path.basename(target.fsPath);
+	const anchored = !!baseUri;
 	let stat: vscode.FileStat | undefined;
 
 	try {
@@ -694,21 +3976,21 @@ async function buildEntryForRemove(target: vscode.Uri, workspace: vscode.Workspa
 	}
 
 	const isDirectory = stat ? isRealDirectory(stat) : undefined;
-	const primary = formatGitignoreEntry(relativePath, isDirectory === true, workspace);
+	const primary = formatGitignoreEntry(relativePath, isDirectory === true, workspace, { anchored });
 	const alternates: string[] = [];
 
 	if (isDirectory === true) {
 		// Match common variants
-		alternates.push(formatGitignoreEntry(relativePath, false, workspace)); // as file
-		const escaped = escapeGitignorePath(relativePath);
+		alternates.push(formatGitignoreEntry(relativePath, false, workspace, { anchored })); // as file
+		const escaped = escapeLiteralPath(relativePath);
 		const withTrailing = escaped.endsWith('/') ? escaped : `${escaped}/`;
 		alternates.push(withTrailing); // non-root anchored folder
 		alternates.push(`/${withTrailing}`); // root anchored folder
 		alternates.push(escaped); // non-root anchored folder without trailing slash
 		alternates.push(`/${escaped}`); // root anchored without trailing slash
 	} else {
-		alternates.push(formatGitignoreEntry(relativePath, true, workspace)); // as folder
-		const escaped = escapeGitignorePath(relativePath);
+		alternates.push(formatGitignoreEntry(relativePath, true, workspace, { anchored })); // as folder
+		const escaped = escapeLiteralPath(relativePath);
 		const withTrailing = escaped.endsWith('/') ? escaped : `${escaped}/`;
 		alternates.push(withTrailing); // non-root anchored with slash
 		alternates.push(`/${withTrailing}`); // root anchored with slash
@@ -719,13 +4001,13 @@ async function buildEntryForRemove(target: vscode.Uri, workspace: vscode.Workspa
 	return { primary, alternates, relativePath };
 }
 
-function getRelativePath(target: vscode.Uri, workspace: vscode.WorkspaceFolder): string {
-	const relative = path.relative(workspace.uri.fsPath, target.fsPath);
+function getRelativePath(target: vscode.Uri, baseUri: vscode.Uri): string {
+	const relative = path.relative(baseUri.fsPath, target.fsPath);
 	if (!relative || relative === '') {
-		throw new Error('Select a file or folder inside the workspace, not the workspace root.');
+		throw new Error('Select a file or folder inside the .gitignore folder, not the folder itself.');
 	}
 	if (relative.startsWith('..') || path.isAbsolute(relative)) {
-		throw new Error('Selected item is not inside the workspace.');
+		throw new Error('Selected item is not inside the .gitignore folder.');
 	}
 	const normalized = relative.split(path.sep).join('/');
 	if (normalized === '.gitignore') {
@@ -734,10 +4016,16 @@ function getRelativePath(target: vscode.Uri, workspace: vscode.WorkspaceFolder):
 	return normalized;
 }
 
-function formatGitignoreEntry(relativePath: string, isDirectory: boolean, workspace?: vscode.WorkspaceFolder): string {
-	const escaped = escapeGitignorePath(relativePath);
+function formatGitignoreEntry(
+	relativePath: string,
+	isDirectory: boolean,
+	workspace?: vscode.WorkspaceFolder,
+	options: { anchored?: boolean } = {}
+): string {
+	const escaped = escapeLiteralPath(relativePath);
 	const trailingSlash = shouldUseTrailingSlashForFolders(workspace);
-	const addLeadingSlash = shouldAddWithLeadingSlash(workspace);
+	// Unanchored entries (global excludes file) match the name at any depth
+	const addLeadingSlash = options.anchored !== false && shouldAddWithLeadingSlash(workspace);
 	const rootLevel = isRootLevelPath(relativePath);
 	const core = escaped.replace(/^\/+/g, '');
 	const isRootDotfile = !isDirectory && rootLevel && core.startsWith('.');
@@ -766,37 +4054,22 @@ function isRootLevelPath(relativePath: string): boolean {
 	return !relativePath.includes('/');
 }
 
-function escapeGitignorePath(value: string): string {
-	return value.replace(/([ #!])/g, (match) => {
-		if (match === ' ') {
-			return '\\ ';
-		}
-		return `\\${match}`;
-	});
-}
-
 function shouldUseTrailingSlashForFolders(workspace?: vscode.WorkspaceFolder): boolean {
 	return vscode.workspace
 		.getConfiguration('gitignoreAssistant', workspace?.uri)
 		.get<boolean>('trailingSlashForFolders', true);
 }
 
-function shouldAddWithLeadingSlash(workspace?: vscode.WorkspaceFolder): boolean {
+function getGitignoreTargetSetting(workspace?: vscode.WorkspaceFolder): GitignoreTargetSetting {
 	return vscode.workspace
 		.getConfiguration('gitignoreAssistant', workspace?.uri)
-		.get<boolean>('addWithLeadingSlash', true);
-}
-
-function isPatternLine(line: string): boolean {
-	// Treat as pattern if it contains globbing or negation characters
-	return /(^!|\*|\?|\[|\]|\*\*)/.test(line);
+		.get<GitignoreTargetSetting>('gitignoreTarget', 'auto');
 }
 
-function stripAnchorsAndSlashes(line: string): string {
-	// Remove leading slash (anchor) and trailing slashes for keying
-	let value = line.replace(/^\/+/, '');
-	value = value.replace(/\/+$/, '');
-	return value;
+function shouldAddWithLeadingSlash(workspace?: vscode.WorkspaceFolder): boolean {
+	return vscode.workspace
+		.getConfiguration('gitignoreAssistant', workspace?.uri)
+		.get<boolean>('addWithLeadingSlash', true);
 }
 
 function buildCanonicalFromKey(
@@ -828,12 +4101,12 @@ function buildCanonicalFromKey(
 	return anchoredBase.replace(/\/+$/g, '');
 }
 
-async function detectDirectoriesForKeys(keys: Set<string>, workspace: vscode.WorkspaceFolder): Promise<Map<string, boolean | undefined>> {
+async function detectDirectoriesForKeys(keys: Set<string>, baseUri: vscode.Uri): Promise<Map<string, boolean | undefined>> {
 	const results = new Map<string, boolean | undefined>();
 	await Promise.all(
 		Array.from(keys).map(async (key) => {
-			const unescaped = unescapeGitignorePath(key);
-			const uri = vscode.Uri.joinPath(workspace.uri, unescaped);
+			const unescaped = unescapeLiteralPath(key);
+			const uri = vscode.Uri.joinPath(baseUri, unescaped);
 			try {
 				const stat = await vscode.workspace.fs.stat(uri);
 				// Return true for real directories, false for symlinks/files
@@ -847,8 +4120,9 @@ async function detectDirectoriesForKeys(keys: Set<string>, workspace: vscode.Wor
 	return results;
 }
 
-function unescapeGitignorePath(value: string): string {
-	return value.replace(/\\([ #!])/g, '$1');
+// Inverse of escapeLiteralPath
+function unescapeLiteralPath(value: string): string {
+	return value.replace(/\\(.)/g, '$1');
 }
 
 function parseLines(content: string): string[] {
@@ -891,11 +4165,16 @@ function cleanupLines(
 	return cleaned;
 }
 
-function addEntry(lines: string[], entry: string): boolean {
+function addEntry(lines: string[], entry: string, managed = false): boolean {
 	if (findMatchingEntry(lines, [entry])) {
 		return false;
 	}
-	lines.push(entry);
+	if (managed) {
+		const block = ensureManagedBlock(lines);
+		lines.splice(block.end, 0, entry);
+	} else {
+		lines.push(entry);
+	}
 	return true;
 }
 
@@ -911,16 +4190,42 @@ function removeEntry(lines: string[], entry: string): boolean {
 	return removed && lines.length !== initialLength;
 }
 
-function enforceBaseEntries(lines: string[], baseEntries: string[]): boolean {
-	let updated = false;
-	for (let i = baseEntries.length - 1; i >= 0; i -= 1) {
-		const entry = baseEntries[i];
-		if (!findMatchingEntry(lines, [entry])) {
-			lines.unshift(entry);
-			updated = true;
-		}
+function enforceBaseEntries(lines: string[], baseEntries: string[], managed = false): boolean {
+	const missing = baseEntries.filter((entry) => !findMatchingEntry(lines, [entry]));
+	if (!missing.length) {
+		return false;
+	}
+	if (managed) {
+		const block = ensureManagedBlock(lines);
+		lines.splice(block.start + 1, 0, ...missing);
+	} else {
+		lines.unshift(...missing);
+	}
+	return true;
+}
+
+function findManagedBlock(lines: string[]): { start: number; end: number } | undefined {
+	const start = lines.findIndex((line) => line.trim() === MANAGED_BLOCK_START);
+	if (start < 0) {
+		return undefined;
+	}
+	const end = lines.findIndex((line, index) => index > start && line.trim() === MANAGED_BLOCK_END);
+	return end > start ? { start, end } : undefined;
+}
+
+function ensureManagedBlock(lines: string[]): { start: number; end: number } {
+	const existing = findManagedBlock(lines);
+	if (existing) {
+		return existing;
+	}
+	while (lines.length && lines[lines.length - 1].trim() === '') {
+		lines.pop();
 	}
-	return updated;
+	if (lines.length) {
+		lines.push('');
+	}
+	lines.push(MANAGED_BLOCK_START, MANAGED_BLOCK_END);
+	return { start: lines.length - 2, end: lines.length - 1 };
 }
 
 function findMatchingEntry(lines: string[], candidates: string[]): string | undefined {
@@ -932,23 +4237,36 @@ function findMatchingEntry(lines: string[], candidates: string[]): string | unde
 	return undefined;
 }
 
-function presentSummary(results: OperationResult[], mode: 'add' | 'remove'): void {
+function presentSummary(results: OperationResult[], mode: UpdateMode, untracked: string[] = []): void {
 	const successStatus = mode === 'add' ? 'added' : 'removed';
 	const successCount = results.filter((result) => result.status === successStatus).length;
-	const skippedCount = results.filter((result) => result.status === 'skipped').length;
+	const skipped = results.filter((result) => result.status === 'skipped');
+	const skippedCount = skipped.length;
 	const errors = results.filter((result) => result.status === 'error');
 
 	const messageParts: string[] = [];
-	messageParts.push(`${capitalize(successStatus)} ${successCount} ${pluralizeEntry(successCount)}.`);
+	messageParts.push(mode === 'unignore'
+		? `Re-included ${successCount} ${pluralizePath(successCount)}.`
+		: `${capitalize(successStatus)} ${successCount} ${pluralizeEntry(successCount)}.`);
 	if (skippedCount) {
 		messageParts.push(`${skippedCount} skipped.`);
 	}
+	if (results.length === 1 && skipped[0]?.detail) {
+		messageParts.push(skipped[0].detail);
+	}
+	if (untracked.length) {
+		const files = untracked.length <= 3 ? formatSummaryList(untracked.map((file) => `"${file}"`)) : `${untracked.length} files`;
+		messageParts.push(`Stopped tracking ${files} (local copies kept).`);
+	}
 	if (errors.length) {
 		messageParts.push(`${errors.length} failed.`);
 	}
 	const message = messageParts.join(' ');
 
 	const showNotifications = shouldShowNotifications();
+	untracked.forEach((file) => {
+		outputChannel.appendLine(`INFO: Stopped tracking "${file}"`);
+	});
 
 	if (errors.length) {
 		if (showNotifications) {
@@ -964,6 +4282,11 @@ function presentSummary(results: OperationResult[], mode: 'add' | 'remove'): voi
 		vscode.window.showInformationMessage(message);
 	}
 	outputChannel.appendLine(`INFO: ${message}`);
+	skipped.forEach((result) => {
+		if (result.detail) {
+			outputChannel.appendLine(`INFO: Skipped "${result.entry}": ${result.detail}`);
+		}
+	});
 }
 
 function dedupeUris(uris: vscode.Uri[]): vscode.Uri[] {
@@ -995,7 +4318,7 @@ function workspaceLabel(workspace: vscode.WorkspaceFolder): string {
 
 function toDisplayPath(workspace: vscode.WorkspaceFolder, uri: vscode.Uri): string {
 	try {
-		const relative = getRelativePath(uri, workspace);
+		const relative = getRelativePath(uri, workspace.uri);
 		return relative;
 	} catch {
 		return uri.fsPath;
@@ -1021,6 +4344,10 @@ function pluralizeEntry(count: number): string {
 	return count === 1 ? 'entry' : 'entries';
 }
 
+function pluralizePath(count: number): string {
+	return count === 1 ? 'path' : 'paths';
+}
+
 function shouldShowNotifications(): boolean {
 	return vscode.workspace.getConfiguration('gitignoreAssistant').get<boolean>('showNotifications', true);
 }
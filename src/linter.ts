@@ -0,0 +1,393 @@
+// Static checks for ignore files, reported as diagnostics by the extension.
+// Like the matcher, this module is free of `vscode` imports so it can be tested with plain fixture trees.
+
+import {
+	checkIgnored,
+	findMatchingRule,
+	hasGlobSyntax,
+	IgnoreRule,
+	isPatternLine,
+	parseIgnoreRules,
+	ruleMatches,
+	stripAnchorsAndSlashes
+} from './matcher';
+
+export type LintRuleId =
+	| 'duplicate'
+	| 'normalizedDuplicate'
+	| 'missingPath'
+	| 'unmatchedPattern'
+	| 'ineffectiveNegation'
+	| 'redundantEntry'
+	| 'trailingWhitespace'
+	| 'backslashSeparator';
+
+export interface LintIssue {
+	rule: LintRuleId;
+	// 0-based line and character range
+	line: number;
+	start: number;
+	end: number;
+	message: string;
+	// 0-based line of the entry this one duplicates or is blocked by, when it is in the same file
+	relatedLine?: number;
+	// Why a negation is ineffective: a later rule overrides it, or a parent folder is excluded
+	reason?: 'overridden' | 'excludedParent';
+}
+
+export interface LintOptions {
+	// Identifier of the linted file, used as the rule source
+	source: string;
+	// Directory of the ignore file relative to the repository root, '' for the root
+	basePath?: string;
+	// Rules from the other ignore files of the repository, by precedence relative to the linted file
+	lowerPrecedenceRules?: IgnoreRule[];
+	higherPrecedenceRules?: IgnoreRule[];
+	// Files and directories (with a trailing slash) relative to the repository root.
+	// Checks against the file system are skipped when omitted.
+	paths?: string[];
+	// Entries expected to be present even when nothing matches them (e.g. base entries)
+	expectedEntries?: string[];
+}
+
+export interface RedundantEntry {
+	// 0-based line of the entry
+	line: number;
+	// Rule of the same file that already ignores everything the entry matches
+	coveredBy: IgnoreRule;
+}
+
+export function lintIgnoreLines(lines: string[], options: LintOptions): LintIssue[] {
+	const issues: LintIssue[] = [];
+	const basePath = options.basePath ?? '';
+	const ownRules = parseIgnoreRules(lines, { source: options.source, basePath });
+	const ruleByLine = new Map(ownRules.map((rule) => [rule.line - 1, rule]));
+	const allRules = [...(options.lowerPrecedenceRules ?? []), ...ownRules, ...(options.higherPrecedenceRules ?? [])];
+	const paths = options.paths?.map((value) => ({ path: value.replace(/\/+$/, ''), isDirectory: value.endsWith('/') }));
+	const expected = new Set(options.expectedEntries ?? []);
+	const seenLines = new Map<string, number>();
+	const seenKeys = new Map<string, number>();
+	const redundant = new Map(findRedundantEntries(lines, options).map((entry) => [entry.line, entry.coveredBy]));
+
+	lines.forEach((raw, index) => {
+		const text = raw.replace(/\r$/, '');
+		const trimmed = text.trim();
+		if (!trimmed || trimmed.startsWith('#')) {
+			return;
+		}
+		const offset = text.indexOf(trimmed);
+
+		const whitespace = findTrailingWhitespace(text);
+		if (whitespace !== undefined) {
+			issues.push({
+				rule: 'trailingWhitespace',
+				line: index,
+				start: whitespace,
+				end: text.length,
+				message: 'Trailing whitespace is ignored by Git. Remove it, or escape it with "\\ " if it is part of the name.'
+			});
+		}
+
+		const backslash = findBackslashSeparator(trimmed);
+		if (backslash !== undefined) {
+			issues.push({
+				rule: 'backslashSeparator',
+				line: index,
+				start: offset + backslash,
+				end: offset + backslash + 1,
+				message: 'Backslashes escape the next character in ignore files. Use "/" to separate folders.'
+			});
+		}
+
+		const rule = ruleByLine.get(index);
+		// A rule of the opposite kind in between may match some of the same paths, so both copies are needed
+		const isSeparated = (earlier: number | undefined) => earlier !== undefined && !!rule && ownRules.some(
+			(other) => other.line - 1 > earlier && other.line - 1 < index && other.negated !== rule.negated && canReach(other, rule)
+		);
+		const seenLine = seenLines.get(trimmed);
+		const exactLine = isSeparated(seenLine) ? undefined : seenLine;
+		const key = isPatternLine(trimmed) ? undefined : stripAnchorsAndSlashes(trimmed);
+		const seenKeyLine = key === undefined ? undefined : seenKeys.get(key);
+		const keyLine = isSeparated(seenKeyLine) ? undefined : seenKeyLine;
+		if (exactLine !== undefined) {
+			issues.push({
+				rule: 'duplicate',
+				line: index,
+				start: offset,
+				end: offset + trimmed.length,
+				message: `Duplicate of line ${exactLine + 1}.`,
+				relatedLine: exactLine
+			});
+		} else if (keyLine !== undefined) {
+			issues.push({
+				rule: 'normalizedDuplicate',
+				line: index,
+				start: offset,
+				end: offset + trimmed.length,
+				message: `Same entry as "${lines[keyLine].trim()}" on line ${keyLine + 1}, ignoring leading and trailing slashes.`,
+				relatedLine: keyLine
+			});
+		}
+		// Entries only differing by slashes are reported as normalized duplicates instead
+		const coveredBy = redundant.get(index);
+		const sameKey = coveredBy && key !== undefined && stripAnchorsAndSlashes(coveredBy.pattern) === key;
+		if (coveredBy && !sameKey && exactLine === undefined && keyLine === undefined && !expected.has(trimmed)) {
+			issues.push({
+				rule: 'redundantEntry',
+				line: index,
+				start: offset,
+				end: offset + trimmed.length,
+				message: `Redundant entry: "${coveredBy.pattern}" on line ${coveredBy.line} already ignores everything it matches.`,
+				relatedLine: coveredBy.line - 1
+			});
+		}
+		if (exactLine === undefined) {
+			seenLines.set(trimmed, index);
+		}
+		if (key !== undefined && keyLine === undefined) {
+			seenKeys.set(key, index);
+		}
+
+		if (!rule) {
+			return;
+		}
+
+		if (rule.negated) {
+			const blocked = findExcludedParent(rule, allRules);
+			if (blocked) {
+				const location = blocked.rule.source === options.source
+					? `line ${blocked.rule.line}`
+					: `"${blocked.rule.pattern}"`;
+				issues.push({
+					rule: 'ineffectiveNegation',
+					line: index,
+					start: offset,
+					end: offset + trimmed.length,
+					message: `This negation has no effect: its parent folder "${blocked.parent}/" is excluded by ${location}, and Git cannot re-include files inside an excluded folder.`,
+					relatedLine: blocked.rule.source === options.source ? blocked.rule.line - 1 : undefined,
+					reason: 'excludedParent'
+				});
+				return;
+			}
+
+			const overriding = findOverridingRule(rule, ownRules, paths);
+			if (overriding) {
+				issues.push({
+					rule: 'ineffectiveNegation',
+					line: index,
+					start: offset,
+					end: offset + trimmed.length,
+					message: `This negation has no effect: "${overriding.pattern}" on line ${overriding.line} excludes the same paths again. Move the negation below it.`,
+					relatedLine: overriding.line - 1,
+					reason: 'overridden'
+				});
+				return;
+			}
+		}
+
+		if (!paths || expected.has(trimmed)) {
+			return;
+		}
+		if (paths.some((candidate) => ruleMatches(rule, candidate.path, candidate.isDirectory))) {
+			return;
+		}
+		const globbed = hasGlobSyntax(rule.pattern);
+		issues.push({
+			rule: globbed ? 'unmatchedPattern' : 'missingPath',
+			line: index,
+			start: offset,
+			end: offset + trimmed.length,
+			message: globbed
+				? 'Pattern does not match any file or folder in the workspace.'
+				: 'No file or folder matching this entry exists in the workspace.'
+		});
+	});
+
+	return issues;
+}
+
+// Finds entries whose matches are all ignored by another rule of the same file anyway, such as "/dist/app.js" below "/dist/"
+// or "/logs/a.log" next to "*.log". Only literal entries and anchored entries below a literal folder are considered,
+// since coverage of an arbitrary glob cannot be proven. Of two entries covering each other, the later one is reported.
+export function findRedundantEntries(lines: string[], options: { source: string; basePath?: string }): RedundantEntry[] {
+	const rules = parseIgnoreRules(lines, { source: options.source, basePath: options.basePath });
+	const positives = rules.filter((rule) => !rule.negated);
+	const negations = rules.filter((rule) => rule.negated);
+	const redundant: RedundantEntry[] = [];
+
+	for (const rule of positives) {
+		const coveredBy = positives.find((other) => {
+			if (other === rule || !coversRule(other, rule)) {
+				return false;
+			}
+			if (other.line > rule.line && coversRule(rule, other)) {
+				return false;
+			}
+			// A negation below either rule may re-include something only one of them excludes
+			const first = Math.min(rule.line, other.line);
+			return !negations.some((negation) => negation.line > first && canReach(negation, rule));
+		});
+		if (coveredBy) {
+			redundant.push({ line: rule.line - 1, coveredBy });
+		}
+	}
+	return redundant;
+}
+
+// Literal segments of a rule, unescaped, up to the first segment with glob syntax
+function describeRule(rule: IgnoreRule): { literal: string[]; isLiteral: boolean } {
+	const body = rule.pattern.replace(/^!/, '').replace(/^\//, '').replace(/\/$/, '');
+	const segments = body.split('/');
+	const literal: string[] = [];
+	for (const segment of segments) {
+		if (hasGlobSyntax(segment)) {
+			break;
+		}
+		literal.push(segment.replace(/\\(.)/g, '$1'));
+	}
+	return { literal, isLiteral: literal.length === segments.length };
+}
+
+function coversRule(cover: IgnoreRule, rule: IgnoreRule): boolean {
+	const { literal, isLiteral } = describeRule(rule);
+	const coversPath = (relativePath: string) =>
+		ruleMatches(cover, relativePath, true) && (rule.directoryOnly || ruleMatches(cover, relativePath, false));
+
+	if (!rule.anchored) {
+		// The name can appear in any folder, so only another rule matching it by name covers it everywhere
+		return isLiteral && !cover.anchored && coversPath([rule.basePath, ...literal].filter(Boolean).join('/'));
+	}
+	if (isLiteral && coversPath([rule.basePath, ...literal].filter(Boolean).join('/'))) {
+		return true;
+	}
+	// Everything below an excluded folder stays ignored
+	const folders = isLiteral ? literal.length - 1 : literal.length;
+	for (let depth = 1; depth <= folders; depth += 1) {
+		if (ruleMatches(cover, [rule.basePath, ...literal.slice(0, depth)].filter(Boolean).join('/'), true)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+// Whether a negation (or, for a negated rule, an excluding one) can match a path the rule matches, or a folder above it
+function canReach(negation: IgnoreRule, rule: IgnoreRule): boolean {
+	const { literal, isLiteral } = describeRule(rule);
+	if (!isLiteral && !rule.anchored) {
+		return true;
+	}
+	const matchesPath = (relativePath: string) => ruleMatches(negation, relativePath, true) || ruleMatches(negation, relativePath, false);
+
+	if (!rule.anchored) {
+		const name = literal[0];
+		if (!negation.anchored) {
+			return matchesPath([rule.basePath, name].filter(Boolean).join('/'));
+		}
+		const negated = describeRule(negation);
+		return !negated.isLiteral || negated.literal[negated.literal.length - 1] === name;
+	}
+	if (!isLiteral) {
+		// Matches below the literal folders cannot be enumerated
+		return true;
+	}
+	for (let depth = 1; depth <= literal.length; depth += 1) {
+		if (matchesPath([rule.basePath, ...literal.slice(0, depth)].filter(Boolean).join('/'))) {
+			return true;
+		}
+	}
+	return false;
+}
+
+// Returns the start of unescaped trailing spaces or tabs, if any
+function findTrailingWhitespace(text: string): number | undefined {
+	let start = text.length;
+	while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) {
+		start -= 1;
+	}
+	if (start === text.length) {
+		return undefined;
+	}
+	let backslashes = 0;
+	for (let index = start - 1; index >= 0 && text[index] === '\\'; index -= 1) {
+		backslashes += 1;
+	}
+	if (backslashes % 2 === 1 && text[start] === ' ') {
+		// The first space is escaped and part of the name
+		start += 1;
+	}
+	return start < text.length ? start : undefined;
+}
+
+// A backslash before a name character is almost always a Windows path separator
+function findBackslashSeparator(pattern: string): number | undefined {
+	for (let index = 0; index < pattern.length; index += 1) {
+		if (pattern[index] !== '\\') {
+			continue;
+		}
+		if (/[A-Za-z0-9_.-]/.test(pattern[index + 1] ?? '')) {
+			return index;
+		}
+		index += 1;
+	}
+	return undefined;
+}
+
+// A negation listed before a rule excluding the same paths is overridden, since the last match wins
+function findOverridingRule(
+	rule: IgnoreRule,
+	ownRules: IgnoreRule[],
+	paths: { path: string; isDirectory: boolean }[] | undefined
+): IgnoreRule | undefined {
+	const later = ownRules.filter((candidate) => candidate.line > rule.line);
+	if (!later.length) {
+		return undefined;
+	}
+
+	const candidates = paths?.filter((candidate) => ruleMatches(rule, candidate.path, candidate.isDirectory)) ?? [];
+	if (!candidates.length && !hasGlobSyntax(rule.pattern)) {
+		// A literal negation stands for the path it names
+		const body = rule.pattern.slice(1).replace(/^\//, '').replace(/\/$/, '').replace(/\\(.)/g, '$1');
+		candidates.push({ path: [rule.basePath, body].filter(Boolean).join('/'), isDirectory: rule.directoryOnly });
+	}
+	if (!candidates.length) {
+		return undefined;
+	}
+
+	let overriding: IgnoreRule | undefined;
+	for (const candidate of candidates) {
+		const match = findMatchingRule(later, candidate.path, candidate.isDirectory);
+		if (!match || match.negated) {
+			return undefined;
+		}
+		if (!overriding || match.line > overriding.line) {
+			overriding = match;
+		}
+	}
+	return overriding;
+}
+
+// Anchored negations cannot take effect when a folder above their literal part is excluded
+function findExcludedParent(rule: IgnoreRule, rules: IgnoreRule[]): { parent: string; rule: IgnoreRule } | undefined {
+	if (!rule.anchored) {
+		return undefined;
+	}
+	const body = rule.pattern.slice(1).replace(/^\//, '').replace(/\/$/, '');
+	const segments = body.split('/');
+	const literal: string[] = [];
+	for (const segment of segments.slice(0, -1)) {
+		if (hasGlobSyntax(segment)) {
+			break;
+		}
+		literal.push(segment.replace(/\\(.)/g, '$1'));
+	}
+	if (!literal.length) {
+		return undefined;
+	}
+
+	const directory = [rule.basePath, ...literal].filter(Boolean).join('/');
+	const result = checkIgnored(rules, directory, true);
+	if (!result.ignored || !result.rule) {
+		return undefined;
+	}
+	return { parent: result.excludedParent ?? directory, rule: result.rule };
+}
@@ -0,0 +1,365 @@
+// Gitignore pattern matching following git's semantics (see `git help gitignore`).
+// This module is intentionally free of `vscode` imports so it can be tested with plain fixture trees.
+
+export interface IgnoreRule {
+	// Pattern text as written in the file, without trailing unescaped spaces
+	pattern: string;
+	// Identifier of the file the rule comes from (e.g. its URI)
+	source: string;
+	// 1-based line number in the source file
+	line: number;
+	// Directory of the ignore file relative to the repository root, '' for the root
+	basePath: string;
+	negated: boolean;
+	directoryOnly: boolean;
+	anchored: boolean;
+	regex: RegExp;
+}
+
+export interface IgnoreCheckResult {
+	ignored: boolean;
+	// Last rule matching the path, or the rule excluding one of its parent directories
+	rule?: IgnoreRule;
+	// Set when the path is ignored because this ancestor directory is excluded
+	excludedParent?: string;
+}
+
+const NEVER_MATCHES = /(?!)/;
+
+export function parseIgnoreRules(lines: string[], options: { source: string; basePath?: string }): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+	lines.forEach((text, index) => {
+		const rule = parseIgnoreRule(text, { source: options.source, line: index + 1, basePath: options.basePath });
+		if (rule) {
+			rules.push(rule);
+		}
+	});
+	return rules;
+}
+
+export function parseIgnoreRule(
+	text: string,
+	options: { source: string; line: number; basePath?: string }
+): IgnoreRule | undefined {
+	const pattern = trimTrailingSpaces(text.replace(/\r$/, ''));
+	if (!pattern || pattern.startsWith('#')) {
+		return undefined;
+	}
+
+	let body = pattern;
+	const negated = body.startsWith('!');
+	if (negated) {
+		body = body.slice(1);
+	}
+
+	const directoryOnly = body.endsWith('/') && !body.endsWith('\\/');
+	if (directoryOnly) {
+		body = body.slice(0, -1);
+	}
+	if (!body) {
+		return undefined;
+	}
+
+	// A slash at the beginning or in the middle anchors the pattern to the ignore file's directory
+	const anchored = body.includes('/');
+	if (body.startsWith('/')) {
+		body = body.slice(1);
+	}
+
+	return {
+		pattern,
+		source: options.source,
+		line: options.line,
+		basePath: normalizeBasePath(options.basePath ?? ''),
+		negated,
+		directoryOnly,
+		anchored,
+		regex: globToRegExp(body)
+	};
+}
+
+export function ruleMatches(rule: IgnoreRule, relativePath: string, isDirectory: boolean): boolean {
+	if (rule.directoryOnly && !isDirectory) {
+		return false;
+	}
+	const local = toRuleRelativePath(rule, relativePath);
+	if (local === undefined) {
+		return false;
+	}
+	const subject = rule.anchored ? local : local.slice(local.lastIndexOf('/') + 1);
+	return rule.regex.test(subject);
+}
+
+// Rules are ordered from lowest to highest precedence, so the last match wins
+export function findMatchingRule(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): IgnoreRule | undefined {
+	for (let index = rules.length - 1; index >= 0; index -= 1) {
+		if (ruleMatches(rules[index], relativePath, isDirectory)) {
+			return rules[index];
+		}
+	}
+	return undefined;
+}
+
+export function checkIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): IgnoreCheckResult {
+	const segments = normalizePath(relativePath).split('/');
+	// It is not possible to re-include a file if one of its parent directories is excluded
+	for (let depth = 1; depth < segments.length; depth += 1) {
+		const parent = segments.slice(0, depth).join('/');
+		const parentRule = findMatchingRule(rules, parent, true);
+		if (parentRule && !parentRule.negated) {
+			return { ignored: true, rule: parentRule, excludedParent: parent };
+		}
+	}
+
+	const rule = findMatchingRule(rules, segments.join('/'), isDirectory);
+	return { ignored: !!rule && !rule.negated, rule };
+}
+
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+	return checkIgnored(rules, relativePath, isDirectory).ignored;
+}
+
+// Paths are files relative to the repository root; directories may be listed with a trailing slash.
+// Returns every ignored file and directory (directories with a trailing slash), sorted.
+export function listIgnoredPaths(rules: IgnoreRule[], paths: string[]): string[] {
+	const directoryState = new Map<string, boolean>();
+	const ignored = new Set<string>();
+
+	const isDirectoryIgnored = (directory: string): boolean => {
+		const cached = directoryState.get(directory);
+		if (cached !== undefined) {
+			return cached;
+		}
+		const parentIndex = directory.lastIndexOf('/');
+		const parentIgnored = parentIndex > 0 && isDirectoryIgnored(directory.slice(0, parentIndex));
+		const rule = parentIgnored ? undefined : findMatchingRule(rules, directory, true);
+		const result = parentIgnored || (!!rule && !rule.negated);
+		directoryState.set(directory, result);
+		if (result) {
+			ignored.add(`${directory}/`);
+		}
+		return result;
+	};
+
+	for (const rawPath of paths) {
+		const isDirectory = rawPath.endsWith('/');
+		const normalized = normalizePath(rawPath);
+		if (!normalized) {
+			continue;
+		}
+		if (isDirectory) {
+			isDirectoryIgnored(normalized);
+			continue;
+		}
+		const parentIndex = normalized.lastIndexOf('/');
+		const parentIgnored = parentIndex > 0 && isDirectoryIgnored(normalized.slice(0, parentIndex));
+		const rule = parentIgnored ? undefined : findMatchingRule(rules, normalized, false);
+		if (parentIgnored || (rule && !rule.negated)) {
+			ignored.add(normalized);
+		}
+	}
+
+	return Array.from(ignored).sort();
+}
+
+export function hasGlobSyntax(pattern: string): boolean {
+	for (let index = 0; index < pattern.length; index += 1) {
+		const char = pattern[index];
+		if (char === '\\') {
+			index += 1;
+			continue;
+		}
+		if (char === '*' || char === '?' || char === '[') {
+			return true;
+		}
+	}
+	return false;
+}
+
+// Escapes every character that would otherwise be read as pattern syntax
+export function escapeLiteralPath(value: string): string {
+	return value.replace(/([\\*?[ #!])/g, '\\$1');
+}
+
+export function isPatternLine(line: string): boolean {
+	// Treat as pattern if it contains globbing or negation characters
+	return /(^!|\*|\?|\[|\]|\*\*)/.test(line);
+}
+
+export function stripAnchorsAndSlashes(line: string): string {
+	// Remove leading slash (anchor) and trailing slashes for keying
+	let value = line.replace(/^\/+/, '');
+	value = value.replace(/\/+$/, '');
+	return value;
+}
+
+function toRuleRelativePath(rule: IgnoreRule, relativePath: string): string | undefined {
+	const normalized = normalizePath(relativePath);
+	if (!rule.basePath) {
+		return normalized;
+	}
+	if (!normalized.startsWith(`${rule.basePath}/`)) {
+		return undefined;
+	}
+	return normalized.slice(rule.basePath.length + 1);
+}
+
+function normalizePath(value: string): string {
+	return value.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/+$/, '');
+}
+
+function normalizeBasePath(value: string): string {
+	return normalizePath(value);
+}
+
+function trimTrailingSpaces(value: string): string {
+	let end = value.length;
+	while (end > 0 && value[end - 1] === ' ') {
+		// An escaped trailing space is kept
+		let backslashes = 0;
+		for (let index = end - 2; index >= 0 && value[index] === '\\'; index -= 1) {
+			backslashes += 1;
+		}
+		if (backslashes % 2 === 1) {
+			break;
+		}
+		end -= 1;
+	}
+	return value.slice(0, end);
+}
+
+function globToRegExp(glob: string): RegExp {
+	let source = '';
+	let index = 0;
+
+	while (index < glob.length) {
+		const char = glob[index];
+
+		if (char === '*') {
+			let end = index;
+			while (glob[end] === '*') {
+				end += 1;
+			}
+			const atSegmentStart = index === 0 || glob[index - 1] === '/';
+			const atSegmentEnd = end === glob.length || glob[end] === '/';
+			if (end - index >= 2 && atSegmentStart && atSegmentEnd) {
+				if (end === glob.length) {
+					// Trailing "/**" matches everything inside, leading "**" alone matches everything
+					source += index === 0 ? '.*' : '.+';
+				} else {
+					// "**/" matches zero or more directories
+					source += '(?:.*/)?';
+					end += 1;
+				}
+			} else {
+				source += '[^/]*';
+			}
+			index = end;
+			continue;
+		}
+
+		if (char === '?') {
+			source += '[^/]';
+			index += 1;
+			continue;
+		}
+
+		if (char === '[') {
+			const parsed = parseCharacterClass(glob, index);
+			if (!parsed) {
+				// git aborts the match on an unterminated bracket expression
+				return NEVER_MATCHES;
+			}
+			source += parsed.source;
+			index = parsed.end;
+			continue;
+		}
+
+		if (char === '\\') {
+			if (index + 1 >= glob.length) {
+				return NEVER_MATCHES;
+			}
+			source += escapeRegExp(glob[index + 1]);
+			index += 2;
+			continue;
+		}
+
+		source += escapeRegExp(char);
+		index += 1;
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+const POSIX_CLASSES: Record<string, string> = {
+	alnum: 'a-zA-Z0-9',
+	alpha: 'a-zA-Z',
+	blank: ' \\t',
+	cntrl: '\\x00-\\x1f\\x7f',
+	digit: '0-9',
+	graph: '\\x21-\\x7e',
+	lower: 'a-z',
+	print: '\\x20-\\x7e',
+	punct: '!-\\/:-@\\[-`{-~',
+	space: ' \\t\\n\\r\\f\\v',
+	upper: 'A-Z',
+	xdigit: '0-9a-fA-F'
+};
+
+function parseCharacterClass(glob: string, start: number): { source: string; end: number } | undefined {
+	let index = start + 1;
+	let negated = false;
+	if (glob[index] === '!' || glob[index] === '^') {
+		negated = true;
+		index += 1;
+	}
+
+	let body = '';
+	let first = true;
+	while (index < glob.length) {
+		const char = glob[index];
+		if (char === ']' && !first) {
+			// Character classes never match the path separator
+			const source = negated ? `[^/${body}]` : `(?!/)[${body}]`;
+			return { source, end: index + 1 };
+		}
+		first = false;
+
+		if (char === '[' && glob[index + 1] === ':') {
+			const close = glob.indexOf(':]', index + 2);
+			const name = close >= 0 ? glob.slice(index + 2, close) : '';
+			if (close >= 0 && POSIX_CLASSES[name]) {
+				body += POSIX_CLASSES[name];
+				index = close + 2;
+				continue;
+			}
+		}
+
+		if (char === '\\') {
+			if (index + 1 >= glob.length) {
+				return undefined;
+			}
+			body += escapeClassChar(glob[index + 1]);
+			index += 2;
+			continue;
+		}
+
+		if (char === '-' && body && glob[index + 1] !== undefined && glob[index + 1] !== ']') {
+			body += '-';
+			index += 1;
+			continue;
+		}
+
+		body += escapeClassChar(char);
+		index += 1;
+	}
+	return undefined;
+}
+
+function escapeClassChar(char: string): string {
+	return /[\\\]\[^-]/.test(char) ? `\\${char}` : char;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,64 @@
+// Project stacks recognised by their marker files, with the build artifacts they usually produce.
+// Artifact paths are relative to the folder containing the marker; directories end with a slash.
+
+export interface StackDefinition {
+	id: string;
+	label: string;
+	// File names or `*.ext` patterns identifying the stack
+	markers: string[];
+	artifacts: string[];
+}
+
+export const STACK_DEFINITIONS: StackDefinition[] = [
+	{
+		id: 'node',
+		label: 'Node',
+		markers: ['package.json'],
+		artifacts: ['node_modules/']
+	},
+	{
+		id: 'python',
+		label: 'Python',
+		markers: ['pyproject.toml', 'setup.py', 'requirements.txt'],
+		artifacts: ['__pycache__/', '.venv/']
+	},
+	{
+		id: 'rust',
+		label: 'Rust',
+		markers: ['Cargo.toml'],
+		artifacts: ['target/']
+	},
+	{
+		id: 'go',
+		label: 'Go',
+		markers: ['go.mod'],
+		artifacts: ['go.work', 'go.work.sum']
+	},
+	{
+		id: 'maven',
+		label: 'Maven',
+		markers: ['pom.xml'],
+		artifacts: ['target/']
+	},
+	{
+		id: 'gradle',
+		label: 'Gradle',
+		markers: ['build.gradle', 'build.gradle.kts'],
+		artifacts: ['.gradle/', 'build/']
+	},
+	{
+		id: 'dotnet',
+		label: '.NET',
+		markers: ['*.csproj', '*.fsproj', '*.vbproj'],
+		artifacts: ['bin/', 'obj/']
+	}
+];
+
+// Glob matching every marker file, for use with a workspace file search
+export const STACK_MARKER_GLOB = `**/{${Array.from(new Set(STACK_DEFINITIONS.flatMap((stack) => stack.markers))).join(',')}}`;
+
+export function findStacksForMarker(fileName: string): StackDefinition[] {
+	return STACK_DEFINITIONS.filter((stack) =>
+		stack.markers.some((marker) => (marker.startsWith('*.') ? fileName.endsWith(marker.slice(1)) : fileName === marker))
+	);
+}
@@ -0,0 +1,197 @@
+// Curated .gitignore templates bundled with the extension so they work offline.
+// Based on https://github.com/github/gitignore (CC0-1.0), trimmed to the common entries.
+
+export interface GitignoreTemplate {
+	id: string;
+	label: string;
+	description: string;
+	lines: string[];
+}
+
+export const BUNDLED_TEMPLATES: GitignoreTemplate[] = [
+	{
+		id: 'node',
+		label: 'Node',
+		description: 'npm, Yarn, and pnpm dependencies, logs, and build output',
+		lines: [
+			'node_modules/',
+			'npm-debug.log*',
+			'yarn-debug.log*',
+			'yarn-error.log*',
+			'pnpm-debug.log*',
+			'.npm/',
+			'.yarn/cache/',
+			'.pnp.*',
+			'*.tsbuildinfo',
+			'.eslintcache',
+			'coverage/',
+			'.nyc_output/',
+			'dist/',
+			'.env',
+			'.env.*.local'
+		]
+	},
+	{
+		id: 'python',
+		label: 'Python',
+		description: 'Bytecode, virtual environments, and packaging artifacts',
+		lines: [
+			'__pycache__/',
+			'*.py[cod]',
+			'*.so',
+			'build/',
+			'dist/',
+			'*.egg-info/',
+			'.eggs/',
+			'.venv/',
+			'venv/',
+			'.pytest_cache/',
+			'.mypy_cache/',
+			'.ruff_cache/',
+			'.tox/',
+			'.coverage',
+			'htmlcov/',
+			'.ipynb_checkpoints/'
+		]
+	},
+	{
+		id: 'java',
+		label: 'Java',
+		description: 'Compiled classes, archives, and Maven or Gradle output',
+		lines: [
+			'*.class',
+			'*.jar',
+			'*.war',
+			'*.ear',
+			'hs_err_pid*',
+			'target/',
+			'.gradle/',
+			'build/',
+			'!gradle/wrapper/gradle-wrapper.jar',
+			'.mvn/wrapper/maven-wrapper.jar'
+		]
+	},
+	{
+		id: 'go',
+		label: 'Go',
+		description: 'Binaries, test output, and workspace files',
+		lines: [
+			'*.exe',
+			'*.exe~',
+			'*.dll',
+			'*.so',
+			'*.dylib',
+			'*.test',
+			'*.out',
+			'go.work',
+			'go.work.sum',
+			'vendor/'
+		]
+	},
+	{
+		id: 'rust',
+		label: 'Rust',
+		description: 'Cargo build output and backup files',
+		lines: [
+			'target/',
+			'**/*.rs.bk',
+			'*.pdb'
+		]
+	},
+	{
+		id: 'dotnet',
+		label: '.NET',
+		description: 'Build output and Visual Studio user files',
+		lines: [
+			'bin/',
+			'obj/',
+			'*.user',
+			'*.suo',
+			'*.userprefs',
+			'.vs/',
+			'TestResults/',
+			'*.nupkg'
+		]
+	},
+	{
+		id: 'macos',
+		label: 'macOS',
+		description: 'Finder metadata and system files',
+		lines: [
+			'.DS_Store',
+			'.AppleDouble',
+			'.LSOverride',
+			'._*',
+			'.Spotlight-V100',
+			'.Trashes',
+			'.fseventsd'
+		]
+	},
+	{
+		id: 'windows',
+		label: 'Windows',
+		description: 'Thumbnail caches, shortcuts, and recycle bin folders',
+		lines: [
+			'Thumbs.db',
+			'Thumbs.db:encryptable',
+			'ehthumbs.db',
+			'Desktop.ini',
+			'$RECYCLE.BIN/',
+			'*.lnk'
+		]
+	},
+	{
+		id: 'linux',
+		label: 'Linux',
+		description: 'Editor backups and file system artifacts',
+		lines: [
+			'*~',
+			'.fuse_hidden*',
+			'.directory',
+			'.Trash-*',
+			'.nfs*'
+		]
+	},
+	{
+		id: 'jetbrains',
+		label: 'JetBrains',
+		description: 'IntelliJ IDEA, WebStorm, PyCharm, and other JetBrains IDEs',
+		lines: [
+			'.idea/',
+			'*.iml',
+			'*.iws',
+			'*.ipr',
+			'out/',
+			'.idea_modules/'
+		]
+	},
+	{
+		id: 'vscode',
+		label: 'VS Code',
+		description: 'Workspace settings, keeping shared configuration files',
+		lines: [
+			'.vscode/*',
+			'!.vscode/settings.json',
+			'!.vscode/tasks.json',
+			'!.vscode/launch.json',
+			'!.vscode/extensions.json',
+			'*.code-workspace',
+			'.history/'
+		]
+	},
+	{
+		id: 'vim',
+		label: 'Vim',
+		description: 'Swap, undo, and session files',
+		lines: [
+			'[._]*.s[a-v][a-z]',
+			'[._]*.sw[a-p]',
+			'[._]s[a-rt-v][a-z]',
+			'[._]ss[a-gi-z]',
+			'[._]sw[a-p]',
+			'Session.vim',
+			'.netrwhist',
+			'tags'
+		]
+	}
+];
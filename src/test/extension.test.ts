@@ -1,11 +1,15 @@
 import * as assert from 'assert';
+import * as childProcess from 'child_process';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
+import { promisify } from 'util';
 import * as vscode from 'vscode';
+import { provideIgnoreDecoration } from '../extension';
 
 const textEncoder = new TextEncoder();
 const textDecoder = new TextDecoder('utf-8');
+const execFile = promisify(childProcess.execFile);
 
 suite('GitIgnore Assistant Extension', () => {
 	let tempDir: string;
@@ -88,6 +92,63 @@ suite('GitIgnore Assistant Extension', () => {
 		);
 	});
 
+	test('Remove command offers to remove, narrow, or negate a glob rule', async function () {
+		this.timeout(15000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		const logUri = await createFile(folder, 'remove-logs/debug.log');
+
+		const offered: string[] = [];
+		let choice = '';
+		const restore = stubWindowMethod('showQuickPick', (items: vscode.QuickPickItem[]) => {
+			offered.push(...items.map((item) => item.label));
+			return Promise.resolve(items.find((item) => item.label === choice));
+		});
+		const removeWith = async (label: string) => {
+			await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n*.log\n'));
+			offered.length = 0;
+			choice = label;
+			await vscode.commands.executeCommand('gitignore-assistant.removeFromGitignore', logUri);
+			return readGitignore(folder);
+		};
+
+		try {
+			assert.strictEqual(await removeWith(''), '.DS_Store\n*.log\n', 'Dismissing the choice should leave the file unchanged');
+			assert.deepStrictEqual(offered, ['Remove rule "*.log"', 'Narrow rule to "/*.log"', 'Add negation "!/remove-logs/debug.log"']);
+			assert.strictEqual(await removeWith('Remove rule "*.log"'), '.DS_Store\n');
+			assert.strictEqual(await removeWith('Narrow rule to "/*.log"'), '.DS_Store\n/*.log\n');
+			assert.strictEqual(await removeWith('Add negation "!/remove-logs/debug.log"'), '.DS_Store\n*.log\n!/remove-logs/debug.log\n');
+		} finally {
+			restore();
+		}
+	});
+
+	test('Remove command only drops an excluded parent folder rule once confirmed', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n/remove-vendor/\n'));
+		const fileUri = await createFile(folder, 'remove-vendor/lib/index.js');
+
+		const prompts: string[] = [];
+		let answer: string | undefined;
+		const restore = stubWindowMethod('showWarningMessage', (message: string) => {
+			prompts.push(message);
+			return Promise.resolve(answer);
+		});
+		try {
+			await vscode.commands.executeCommand('gitignore-assistant.removeFromGitignore', fileUri);
+			assert.ok(prompts.some((message) => message.includes('Git cannot re-include a path inside an excluded folder')), 'The excluded parent should be explained');
+			assert.strictEqual(await readGitignore(folder), '.DS_Store\n/remove-vendor/\n', 'Nothing should change without confirmation');
+
+			answer = 'Remove Parent Rule';
+			await vscode.commands.executeCommand('gitignore-assistant.removeFromGitignore', fileUri);
+			assert.strictEqual(await readGitignore(folder), '.DS_Store\n', 'Confirming should remove the parent folder rule');
+		} finally {
+			restore();
+		}
+	});
+
 	test('Add command ignores duplicate entries', async function () {
 		this.timeout(10000);
 		const folder = ensureWorkspace();
@@ -103,6 +164,23 @@ suite('GitIgnore Assistant Extension', () => {
 		assert.strictEqual(occurrences, 1, 'Duplicate entries should not be added to .gitignore');
 	});
 
+	test('Add command skips paths already ignored by another rule', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n/covered/\n*.bak\n'));
+		const folderFile = await createFile(folder, 'covered/output.txt');
+		const patternFile = await createFile(folder, 'src/notes.bak');
+
+		await vscode.commands.executeCommand('gitignore-assistant.addToGitignore', folderFile, [folderFile, patternFile]);
+
+		assert.strictEqual(
+			await readGitignore(folder),
+			'.DS_Store\n/covered/\n*.bak\n',
+			'Paths covered by a folder or pattern rule should not get their own entry'
+		);
+	});
+
 		test('Add command respects addWithLeadingSlash setting', async function () {
 			this.timeout(10000);
 			const folder = ensureWorkspace();
@@ -155,6 +233,42 @@ suite('GitIgnore Assistant Extension', () => {
 		}
 	});
 
+	test('Managed block keeps extension entries apart from hand-written lines', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('# hand-written\nzeta/\nalpha/\n'));
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const prevManaged = configuration.get<boolean>('useManagedBlock');
+		const prevSort = configuration.get<boolean>('sortWhenCleaning');
+		await configuration.update('useManagedBlock', true, vscode.ConfigurationTarget.WorkspaceFolder);
+		await configuration.update('sortWhenCleaning', true, vscode.ConfigurationTarget.WorkspaceFolder);
+
+		try {
+			await vscode.commands.executeCommand('gitignore-assistant.addToGitignore', await createFile(folder, 'src/managed.ts'));
+			await vscode.commands.executeCommand('gitignore-assistant.addToGitignore', await createFile(folder, 'src/a-managed.ts'));
+			let lines = (await readGitignore(folder)).trim().split('\n');
+			assert.deepStrictEqual(
+				lines,
+				['# hand-written', 'zeta/', 'alpha/', '', '# >>> gitignore-assistant', '.DS_Store', '/src/managed.ts', '/src/a-managed.ts', '# <<< gitignore-assistant'],
+				'Base entries and added entries should be written inside the managed block'
+			);
+
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore', gitignoreUri);
+			lines = (await readGitignore(folder)).trim().split('\n');
+			const sortedBlock = ['.DS_Store', '/src/managed.ts', '/src/a-managed.ts'].sort((left, right) => left.localeCompare(right));
+			assert.deepStrictEqual(
+				lines,
+				['# hand-written', 'zeta/', 'alpha/', '', '# >>> gitignore-assistant', ...sortedBlock, '# <<< gitignore-assistant'],
+				'Clean should only sort the inside of the managed block'
+			);
+		} finally {
+			await configuration.update('useManagedBlock', prevManaged, vscode.ConfigurationTarget.WorkspaceFolder);
+			await configuration.update('sortWhenCleaning', prevSort, vscode.ConfigurationTarget.WorkspaceFolder);
+		}
+	});
+
 		test('Clean command preserves comments and empty lines by default', async function () {
 			this.timeout(10000);
 			const folder = ensureWorkspace();
@@ -206,6 +320,108 @@ suite('GitIgnore Assistant Extension', () => {
 		}
 	});
 
+	test('Section sort mode keeps comments with the entries they describe', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		const initialContent = ['.DS_Store', '', '# Logs', '*.log', '!keep.log', 'debug/', '# Build output', 'out/', 'build/'].join('\n');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(`${initialContent}\n`));
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const inspectSort = configuration.inspect<boolean>('sortWhenCleaning');
+		const inspectMode = configuration.inspect<string>('sortMode');
+		await configuration.update('sortWhenCleaning', true, vscode.ConfigurationTarget.WorkspaceFolder);
+		await configuration.update('sortMode', 'sections', vscode.ConfigurationTarget.WorkspaceFolder);
+
+		try {
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore');
+			assert.deepStrictEqual(
+				(await readGitignore(folder)).trim().split('\n'),
+				['.DS_Store', '', '# Logs', '*.log', '!keep.log', 'debug/', '# Build output', 'build/', 'out/'],
+				'Entries should only be sorted within their section, around negations'
+			);
+
+			await configuration.update('sortMode', 'sectionsByHeader', vscode.ConfigurationTarget.WorkspaceFolder);
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore');
+			assert.deepStrictEqual(
+				(await readGitignore(folder)).trim().split('\n'),
+				['.DS_Store', '', '# Build output', 'build/', 'out/', '', '# Logs', '*.log', '!keep.log', 'debug/'],
+				'Sections should be ordered by their header'
+			);
+		} finally {
+			await configuration.update('sortWhenCleaning', inspectSort?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+			await configuration.update('sortMode', inspectMode?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+		}
+	});
+
+	test('Clean never changes which workspace files are ignored', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder.uri, 'keep.log'), textEncoder.encode(''));
+		await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder.uri, 'debug.log'), textEncoder.encode(''));
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const inspectSort = configuration.inspect<boolean>('sortWhenCleaning');
+		const inspectMode = configuration.inspect<string>('sortMode');
+		await configuration.update('sortWhenCleaning', true, vscode.ConfigurationTarget.WorkspaceFolder);
+		await configuration.update('sortMode', 'file', vscode.ConfigurationTarget.WorkspaceFolder);
+
+		try {
+			await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(['.DS_Store', 'out/', '*.log', '!keep.log'].join('\n') + '\n'));
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore');
+			const sortedLines = (await readGitignore(folder)).trim().split('\n');
+			assert.ok(
+				sortedLines.indexOf('*.log') < sortedLines.indexOf('!keep.log'),
+				'The negation should stay after the pattern it overrides'
+			);
+
+			await configuration.update('sortWhenCleaning', false, vscode.ConfigurationTarget.WorkspaceFolder);
+			const duplicateAfterNegation = ['.DS_Store', '*.log', '!keep.log', '*.log'].join('\n') + '\n';
+			await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(duplicateAfterNegation));
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore');
+			assert.strictEqual(
+				await readGitignore(folder),
+				duplicateAfterNegation,
+				'Removing the later duplicate would track keep.log again, so the clean should be refused'
+			);
+		} finally {
+			await configuration.update('sortWhenCleaning', inspectSort?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+			await configuration.update('sortMode', inspectMode?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+			await vscode.workspace.fs.delete(vscode.Uri.joinPath(folder.uri, 'keep.log'));
+			await vscode.workspace.fs.delete(vscode.Uri.joinPath(folder.uri, 'debug.log'));
+		}
+	});
+
+	test('Clean removes entries covered by broader rules when enabled', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		const initialContent = ['.DS_Store', '/dist/', '/dist/app.js', '*.log', '!/logs/keep.log', '/logs/keep.log', '/logs/a.log'].join('\n');
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const inspectSort = configuration.inspect<boolean>('sortWhenCleaning');
+		const inspectRedundant = configuration.inspect<boolean>('removeRedundantEntries');
+		await configuration.update('sortWhenCleaning', false, vscode.ConfigurationTarget.WorkspaceFolder);
+
+		try {
+			await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(`${initialContent}\n`));
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore');
+			assert.strictEqual((await readGitignore(folder)).trim(), initialContent, 'Redundant entries should only be reported by default');
+
+			await configuration.update('removeRedundantEntries', true, vscode.ConfigurationTarget.WorkspaceFolder);
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore');
+			assert.deepStrictEqual(
+				(await readGitignore(folder)).trim().split('\n'),
+				['.DS_Store', '/dist/', '*.log', '!/logs/keep.log', '/logs/keep.log'],
+				'Entries below a negation they depend on should be kept'
+			);
+		} finally {
+			await configuration.update('sortWhenCleaning', inspectSort?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+			await configuration.update('removeRedundantEntries', inspectRedundant?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+		}
+	});
+
 		test('Trailing slash for folders setting is respected', async function () {
 			this.timeout(10000);
 			const folder = ensureWorkspace();
@@ -326,27 +542,734 @@ suite('GitIgnore Assistant Extension', () => {
 		}
 	});
 
-	test('Clean command ignores non-root .gitignore resources', async function () {
+	test('Clean command runs on nested .gitignore resources', async function () {
 		this.timeout(10000);
 		const folder = ensureWorkspace();
 		const nestedDir = vscode.Uri.joinPath(folder.uri, 'packages');
 		await vscode.workspace.fs.createDirectory(nestedDir);
 		const nestedGitignore = vscode.Uri.joinPath(nestedDir, '.gitignore');
-		await vscode.workspace.fs.writeFile(nestedGitignore, textEncoder.encode('dist/\n'));
+		await vscode.workspace.fs.writeFile(nestedGitignore, textEncoder.encode('dist/\n/dist/\n'));
+
+		try {
+			await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore', nestedGitignore);
+
+			const cleaned = textDecoder.decode(await vscode.workspace.fs.readFile(nestedGitignore));
+			assert.deepStrictEqual(
+				cleaned.trim().split('\n'),
+				['dist/'],
+				'Clean command should de-duplicate nested .gitignore files without adding base entries'
+			);
+			try {
+				await readGitignore(folder);
+				assert.fail('Root .gitignore should not be created when cleaning a nested file.');
+			} catch (error) {
+				assert.ok(error instanceof vscode.FileSystemError, 'Expected FileSystemError when reading missing .gitignore');
+				if (error instanceof vscode.FileSystemError) {
+					assert.strictEqual(error.code, 'FileNotFound');
+				}
+			}
+		} finally {
+			await vscode.workspace.fs.delete(nestedGitignore);
+		}
+	});
+
+	test('Add command writes entries relative to the nearest .gitignore', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const previous = configuration.get<string>('gitignoreTarget');
+		await configuration.update('gitignoreTarget', 'nearest', vscode.ConfigurationTarget.WorkspaceFolder);
+
+		const nestedGitignore = vscode.Uri.joinPath(folder.uri, 'packages', 'app', '.gitignore');
+		try {
+			await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(folder.uri, 'packages', 'app'));
+			await vscode.workspace.fs.writeFile(nestedGitignore, textEncoder.encode('/coverage/\n'));
+			const fileUri = await createFile(folder, 'packages/app/dist/bundle.js');
+			await vscode.commands.executeCommand('gitignore-assistant.addToGitignore', fileUri);
+
+			const nested = textDecoder.decode(await vscode.workspace.fs.readFile(nestedGitignore));
+			assert.deepStrictEqual(
+				nested.trim().split('\n'),
+				['/coverage/', '/dist/bundle.js'],
+				'Entry should be anchored relative to the nested .gitignore'
+			);
+		} finally {
+			await vscode.workspace.fs.delete(nestedGitignore);
+			await configuration.update('gitignoreTarget', previous, vscode.ConfigurationTarget.WorkspaceFolder);
+		}
+	});
+
+	test('Add command follows each workspace folder\'s own gitignoreTarget setting', async function () {
+		this.timeout(20000);
+		const folder = ensureWorkspace();
+		const otherDir = path.join(os.tmpdir(), 'gitignore-assistant-test-second-workspace');
+		await fs.mkdir(otherDir, { recursive: true });
+		await clearDirectory(otherDir);
+		const other = await addWorkspaceFolder(vscode.Uri.file(otherDir), 'GitIgnore Assistant Second Workspace');
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const otherConfiguration = vscode.workspace.getConfiguration('gitignoreAssistant', other.uri);
+		const previous = configuration.get<string>('gitignoreTarget');
+		await configuration.update('gitignoreTarget', 'root', vscode.ConfigurationTarget.WorkspaceFolder);
+		await otherConfiguration.update('gitignoreTarget', 'nearest', vscode.ConfigurationTarget.WorkspaceFolder);
+
+		const nestedGitignore = vscode.Uri.joinPath(other.uri, 'packages', 'lib', '.gitignore');
+		try {
+			await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(other.uri, 'packages', 'lib'));
+			await vscode.workspace.fs.writeFile(nestedGitignore, textEncoder.encode('/coverage/\n'));
+			const fileUri = await createFile(folder, 'per-folder/out.js');
+			const otherUri = await createFile(other, 'packages/lib/out.js');
+			await vscode.commands.executeCommand('gitignore-assistant.addToGitignore', fileUri, [fileUri, otherUri]);
+
+			assert.ok((await readGitignore(folder)).includes('/per-folder/out.js'), 'First folder should use its root .gitignore');
+			const nested = textDecoder.decode(await vscode.workspace.fs.readFile(nestedGitignore));
+			assert.deepStrictEqual(
+				nested.trim().split('\n'),
+				['/coverage/', '/out.js'],
+				'Second folder should use its nearest .gitignore'
+			);
+		} finally {
+			await configuration.update('gitignoreTarget', previous, vscode.ConfigurationTarget.WorkspaceFolder);
+			await otherConfiguration.update('gitignoreTarget', undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+			const index = (vscode.workspace.workspaceFolders ?? []).findIndex((candidate) => candidate.uri.fsPath === other.uri.fsPath);
+			if (index >= 0) {
+				vscode.workspace.updateWorkspaceFolders(index, 1);
+			}
+			await clearDirectory(otherDir);
+		}
+	});
+
+	test('Add to local exclude writes to .git/info/exclude', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitDir = vscode.Uri.joinPath(folder.uri, '.git');
+		await vscode.workspace.fs.createDirectory(gitDir);
+
+		try {
+			const fileUri = await createFile(folder, 'scratch/notes.md');
+			await vscode.commands.executeCommand('gitignore-assistant.addToLocalExclude', fileUri);
+
+			const exclude = textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(gitDir, 'info', 'exclude')));
+			assert.deepStrictEqual(exclude.trim().split('\n'), ['/scratch/notes.md'], 'Entry should be written to the local exclude file');
+
+			await vscode.commands.executeCommand('gitignore-assistant.removeFromLocalExclude', fileUri);
+			const afterRemoval = textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(gitDir, 'info', 'exclude')));
+			assert.strictEqual(afterRemoval.trim(), '', 'Entry should be removed from the local exclude file');
+		} finally {
+			await vscode.workspace.fs.delete(gitDir, { recursive: true });
+		}
+	});
+
+	test('Add to local exclude resolves worktree .git files to the common directory', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const mainGitDir = path.join(tempDir, '.main-repo', '.git');
+		const worktreeGitDir = path.join(mainGitDir, 'worktrees', 'feature');
+		const dotGitFile = vscode.Uri.joinPath(folder.uri, '.git');
+		await fs.mkdir(worktreeGitDir, { recursive: true });
+		await fs.writeFile(path.join(worktreeGitDir, 'commondir'), '../..\n');
+		await fs.writeFile(dotGitFile.fsPath, `gitdir: ${worktreeGitDir}\n`);
+
+		try {
+			const fileUri = await createFile(folder, 'scratch/worktree.md');
+			await vscode.commands.executeCommand('gitignore-assistant.addToLocalExclude', fileUri);
+
+			const exclude = await fs.readFile(path.join(mainGitDir, 'info', 'exclude'), 'utf-8');
+			assert.ok(exclude.split('\n').includes('/scratch/worktree.md'), 'Worktrees should share the main repository exclude file');
+		} finally {
+			await fs.rm(dotGitFile.fsPath, { force: true });
+			await fs.rm(path.join(tempDir, '.main-repo'), { recursive: true, force: true });
+		}
+	});
+
+	test('Add to global excludes uses core.excludesFile with unanchored entries', async function () {
+		this.timeout(10000);
+		if (process.platform === 'win32') {
+			return this.skip();
+		}
+
+		const folder = ensureWorkspace();
+		const homeDir = path.join(tempDir, '.fake-home');
+		const previousHome = process.env.HOME;
+		const previousXdg = process.env.XDG_CONFIG_HOME;
+		await fs.mkdir(homeDir, { recursive: true });
+		await fs.writeFile(path.join(homeDir, '.gitconfig'), '[core]\n\texcludesFile = "~/custom-ignore"\n');
+		process.env.HOME = homeDir;
+		process.env.XDG_CONFIG_HOME = path.join(homeDir, '.config');
+
+		try {
+			const ideaDir = vscode.Uri.joinPath(folder.uri, 'tools', '.idea');
+			await vscode.workspace.fs.createDirectory(ideaDir);
+			await vscode.commands.executeCommand('gitignore-assistant.addToGlobalExcludes', ideaDir);
+
+			const content = await fs.readFile(path.join(homeDir, 'custom-ignore'), 'utf-8');
+			assert.deepStrictEqual(content.trim().split('\n'), ['.idea/'], 'Global entries should not be anchored to the workspace');
+		} finally {
+			process.env.HOME = previousHome;
+			if (previousXdg === undefined) {
+				delete process.env.XDG_CONFIG_HOME;
+			} else {
+				process.env.XDG_CONFIG_HOME = previousXdg;
+			}
+			await fs.rm(homeDir, { recursive: true, force: true });
+		}
+	});
+
+	test('Adding an entry offers to untrack the committed files it now ignores', async function () {
+		this.timeout(20000);
+		const folder = ensureWorkspace();
+		const gitDir = vscode.Uri.joinPath(folder.uri, '.git');
+		await execFile('git', ['init', '-q'], { cwd: folder.uri.fsPath });
+		await createFile(folder, 'tracked-logs/a.log');
+		await createFile(folder, 'tracked-logs/b.log');
+		await createFile(folder, 'tracked-src/app.ts');
+		await execFile('git', ['add', 'tracked-logs', 'tracked-src'], { cwd: folder.uri.fsPath });
+		const prompts: string[] = [];
+		const restore = stubWindowMethod('showWarningMessage', (message: string, ...items: unknown[]) => {
+			prompts.push(message);
+			// Accept the action offered by the modal
+			return Promise.resolve(items.filter((item) => typeof item === 'string').pop());
+		});
+
+		try {
+			await vscode.commands.executeCommand('gitignore-assistant.addToGitignore', vscode.Uri.joinPath(folder.uri, 'tracked-logs'));
+
+			assert.ok(prompts.some((message) => message.startsWith('2 files are already tracked by Git')), 'Both tracked files in the folder should be offered');
+			const { stdout } = await execFile('git', ['ls-files'], { cwd: folder.uri.fsPath });
+			assert.deepStrictEqual(stdout.trim().split('\n'), ['tracked-src/app.ts'], 'Only files covered by the new entry should leave the index');
+			await vscode.workspace.fs.stat(vscode.Uri.joinPath(folder.uri, 'tracked-logs', 'a.log'));
+
+			prompts.length = 0;
+			await createFile(folder, 'tracked-src/other.ts');
+			await execFile('git', ['add', 'tracked-src'], { cwd: folder.uri.fsPath });
+			const restoreConfirm = stubWindowMethod('showInformationMessage', (_message: string, ...items: unknown[]) =>
+				Promise.resolve(items.filter((item) => typeof item === 'string').pop())
+			);
+			try {
+				await vscode.commands.executeCommand('gitignore-assistant.ignoreFolderExceptFile', vscode.Uri.joinPath(folder.uri, 'tracked-src', 'app.ts'));
+			} finally {
+				restoreConfirm();
+			}
+			assert.ok(prompts.some((message) => message.startsWith('"tracked-src/other.ts" is already tracked')), 'Only the newly ignored file should be offered');
+			const { stdout: remaining } = await execFile('git', ['ls-files'], { cwd: folder.uri.fsPath });
+			assert.deepStrictEqual(remaining.trim().split('\n'), ['tracked-src/app.ts'], 'The file kept by the negation should stay tracked');
+		} finally {
+			restore();
+			await vscode.workspace.fs.delete(gitDir, { recursive: true });
+		}
+	});
+
+	test('Decorations are opt-in and name the rule ignoring a file', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n*.log\n'));
+		const logUri = await createFile(folder, 'decorated/app.log');
+		const storeUri = await createFile(folder, 'decorated/.DS_Store');
+		const sourceUri = await createFile(folder, 'decorated/app.ts');
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const inspectDecorations = configuration.inspect<boolean>('showDecorations');
+		assert.strictEqual(await provideIgnoreDecoration(logUri), undefined, 'Decorations should be off by default');
+		await configuration.update('showDecorations', true, vscode.ConfigurationTarget.WorkspaceFolder);
+
+		try {
+			let decoration: vscode.FileDecoration | undefined;
+			for (let attempt = 0; attempt < 50 && decoration?.badge !== 'I'; attempt += 1) {
+				decoration = await provideIgnoreDecoration(logUri);
+				await new Promise((resolve) => setTimeout(resolve, 100));
+			}
+			assert.strictEqual(decoration?.badge, 'I', 'Files ignored by a rule should get an I badge');
+			assert.strictEqual(decoration?.tooltip, 'Ignored by .gitignore:2:*.log');
+			assert.strictEqual((await provideIgnoreDecoration(storeUri))?.badge, 'B', 'Files covered by a base entry should get a B badge');
+			assert.strictEqual(await provideIgnoreDecoration(sourceUri), undefined, 'Files that are not ignored should not be decorated');
+		} finally {
+			await configuration.update('showDecorations', inspectDecorations?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+		}
+	});
+
+	test('Decorations follow unsaved edits to an ignore file', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n'));
+		const tempUri = await createFile(folder, 'decorated-edit/app.tmp');
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const inspectDecorations = configuration.inspect<boolean>('showDecorations');
+		await configuration.update('showDecorations', true, vscode.ConfigurationTarget.WorkspaceFolder);
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+		const editor = await vscode.window.showTextDocument(document);
+
+		try {
+			assert.strictEqual(await provideIgnoreDecoration(tempUri), undefined, 'The file should not be ignored yet');
+			await editor.edit((builder) => builder.insert(new vscode.Position(1, 0), '*.tmp\n'));
+
+			let decoration: vscode.FileDecoration | undefined;
+			for (let attempt = 0; attempt < 50 && !decoration; attempt += 1) {
+				await new Promise((resolve) => setTimeout(resolve, 100));
+				decoration = await provideIgnoreDecoration(tempUri);
+			}
+			assert.strictEqual(decoration?.tooltip, 'Ignored by .gitignore:2:*.tmp', 'Unsaved edits should refresh cached decorations');
+			assert.ok(document.isDirty, 'The edit should not need saving to take effect');
+		} finally {
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+			await configuration.update('showDecorations', inspectDecorations?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+		}
+	});
+
+	test('Explain command reveals the rule that ignores a file', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n*.log\n!keep.log\n'));
+		const ignoredLog = await createFile(folder, 'logs/debug.log');
+		const keptLog = await createFile(folder, 'logs/keep.log');
+
+		try {
+			await vscode.commands.executeCommand('gitignore-assistant.explainIgnored', ignoredLog);
+			let editor = vscode.window.activeTextEditor;
+			assert.strictEqual(editor?.document.uri.fsPath, gitignoreUri.fsPath, 'The responsible .gitignore should be opened');
+			assert.strictEqual(editor?.selection.start.line, 1, 'The matching pattern line should be selected');
+
+			await vscode.commands.executeCommand('gitignore-assistant.explainIgnored', keptLog);
+			editor = vscode.window.activeTextEditor;
+			assert.strictEqual(editor?.selection.start.line, 2, 'The re-including negation should be selected');
+		} finally {
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
+
+	test('Unignore rewrites an excluded parent folder into a re-inclusion chain', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n/unignore-config/\n'));
+		const exampleUri = await createFile(folder, 'unignore-config/env/app.example');
+
+		const messages: string[] = [];
+		const restore = stubWindowMethod('showInformationMessage', (message: string) => {
+			messages.push(message);
+			return Promise.resolve(undefined);
+		});
+		try {
+			await vscode.commands.executeCommand('gitignore-assistant.unignore', exampleUri);
+		} finally {
+			restore();
+		}
+		assert.strictEqual(
+			await readGitignore(folder),
+			'.DS_Store\n/unignore-config/*\n!/unignore-config/env/\n/unignore-config/env/*\n!/unignore-config/env/app.example\n'
+		);
+		assert.deepStrictEqual(messages, ['Re-included 1 path.'], 'The summary should report the path re-included');
+	});
+
+	test('Remove stale entries skips base entries and kept sections', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await createFile(folder, 'stale-present.txt');
+		const initialContent = ['.DS_Store', '/stale-gone.txt', '/stale-present.txt', 'stale-anywhere/', '# keep: created by the build', '/stale-generated/', '', '*.log'];
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(`${initialContent.join('\n')}\n`));
+
+		await vscode.commands.executeCommand('gitignore-assistant.pruneStaleEntries', gitignoreUri, [
+			'/stale-gone.txt',
+			'/stale-generated/',
+			'stale-anywhere/'
+		]);
+		assert.deepStrictEqual(
+			(await readGitignore(folder)).trim().split('\n'),
+			['.DS_Store', '/stale-present.txt', 'stale-anywhere/', '# keep: created by the build', '/stale-generated/', '', '*.log'],
+			'Only anchored literal entries outside kept sections should be removed'
+		);
+	});
+
+	test('Insert template adds a marked section without duplicating entries', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\nnode_modules/\n'));
+
+		await vscode.commands.executeCommand('gitignore-assistant.insertTemplate', gitignoreUri, ['node']);
+		const content = await readGitignore(folder);
+		const lines = content.trim().split('\n');
+		assert.ok(lines.includes('# >>> template: Node'), 'Template section should start with a marker');
+		assert.ok(lines.includes('# <<< template: Node'), 'Template section should end with a marker');
+		assert.ok(lines.includes('npm-debug.log*'), 'Template entries should be inserted');
+		assert.strictEqual(lines.filter((line) => line === 'node_modules/').length, 1, 'Existing entries should not be duplicated');
+
+		await vscode.commands.executeCommand('gitignore-assistant.insertTemplate', gitignoreUri, ['node']);
+		assert.strictEqual(await readGitignore(folder), content, 'Inserting the same template again should not change the file');
+	});
+
+	test('Suggest command adds standard artifacts for detected project types', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n/stack-rust/target/\n'));
+		await createFile(folder, 'stack-node/package.json');
+		await createFile(folder, 'stack-rust/Cargo.toml');
+
+		await vscode.commands.executeCommand('gitignore-assistant.suggestIgnoreRules', { applyAll: true });
+		const content = await readGitignore(folder);
+		const lines = content.trim().split('\n');
+		assert.ok(lines.includes('/stack-node/node_modules/'), 'Missing artifacts should be added next to their marker');
+		assert.strictEqual(lines.filter((line) => line === '/stack-rust/target/').length, 1, 'Ignored artifacts should not be suggested');
+
+		await vscode.commands.executeCommand('gitignore-assistant.suggestIgnoreRules', { applyAll: true });
+		assert.strictEqual(await readGitignore(folder), content, 'Nothing should be suggested once artifacts are ignored');
+	});
+
+	test('Ignore by pattern skips existing and inapplicable choices without writing', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n*.log\n'));
+		const logUri = await createFile(folder, 'pattern-me/app.log');
+		const rootUri = await createFile(folder, 'pattern-root.txt');
+
+		await vscode.commands.executeCommand('gitignore-assistant.ignoreExtension', logUri);
+		await vscode.commands.executeCommand('gitignore-assistant.ignoreFolderExceptFile', rootUri);
+		await vscode.commands.executeCommand('gitignore-assistant.ignoreExtension', vscode.Uri.joinPath(folder.uri, 'pattern-me'));
+		assert.strictEqual(await readGitignore(folder), '.DS_Store\n*.log\n');
+	});
+
+	test('Add command edits the open .gitignore buffer without clobbering unsaved changes', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n'));
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+		const editor = await vscode.window.showTextDocument(document);
+
+		try {
+			await editor.edit((builder) => builder.insert(new vscode.Position(1, 0), 'unsaved-entry\n'));
+			await vscode.commands.executeCommand('gitignore-assistant.addToGitignore', await createFile(folder, 'src/open-buffer.ts'));
+
+			assert.deepStrictEqual(
+				document.getText().trim().split('\n'),
+				['.DS_Store', 'unsaved-entry', '/src/open-buffer.ts'],
+				'The entry should be added to the editor buffer, keeping unsaved edits'
+			);
+			assert.ok(document.isDirty, 'A buffer with unsaved edits should not be saved on the user\'s behalf');
+			assert.strictEqual(await readGitignore(folder), '.DS_Store\n', 'The file on disk should not be overwritten');
+		} finally {
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
+
+	test('Preview mode only writes Clean results once applied', async function () {
+		this.timeout(15000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		const initialContent = '.DS_Store\ndist/\ndist/\n';
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(initialContent));
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const prevPreview = configuration.get<boolean>('previewChanges');
+		await configuration.update('previewChanges', true, vscode.ConfigurationTarget.WorkspaceFolder);
+
+		try {
+			let pending = vscode.commands.executeCommand('gitignore-assistant.cleanGitignore', gitignoreUri);
+			let previewUri = await waitForPreviewTab();
+			assert.strictEqual(await readGitignore(folder), initialContent, 'Nothing should be written while the preview is open');
+			await vscode.commands.executeCommand('gitignore-assistant.discardPreview', previewUri);
+			await pending;
+			assert.strictEqual(await readGitignore(folder), initialContent, 'Discarding should leave the file untouched');
+
+			pending = vscode.commands.executeCommand('gitignore-assistant.cleanGitignore', gitignoreUri);
+			previewUri = await waitForPreviewTab();
+			const proposed = await vscode.workspace.openTextDocument(previewUri);
+			assert.strictEqual(proposed.getText(), '.DS_Store\ndist/\n', 'The preview should show the proposed lines');
+			await vscode.commands.executeCommand('gitignore-assistant.applyPreview', previewUri);
+			await pending;
+			assert.strictEqual(await readGitignore(folder), '.DS_Store\ndist/\n', 'Applying should write the proposed lines');
+		} finally {
+			await configuration.update('previewChanges', prevPreview, vscode.ConfigurationTarget.WorkspaceFolder);
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
+
+	test('Discarding a preview does not create a missing .gitignore', async function () {
+		this.timeout(15000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		const fileUri = await createFile(folder, 'src/preview-new.ts');
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const prevPreview = configuration.get<boolean>('previewChanges');
+		await configuration.update('previewChanges', true, vscode.ConfigurationTarget.WorkspaceFolder);
+
+		try {
+			const pending = vscode.commands.executeCommand('gitignore-assistant.addToGitignore', fileUri);
+			const previewUri = await waitForPreviewTab();
+			await assert.rejects(Promise.resolve(vscode.workspace.fs.stat(gitignoreUri)), 'Nothing should be created while the preview is open');
+			await vscode.commands.executeCommand('gitignore-assistant.discardPreview', previewUri);
+			await pending;
+			await assert.rejects(Promise.resolve(vscode.workspace.fs.stat(gitignoreUri)), 'Discarding should not leave a new .gitignore behind');
+		} finally {
+			await configuration.update('previewChanges', prevPreview, vscode.ConfigurationTarget.WorkspaceFolder);
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
+
+	test('Lint diagnostics follow edits in an open .gitignore', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(folder.uri, 'lint-target'));
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n/lint-target/\n/lint-target\n'));
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+		const editor = await vscode.window.showTextDocument(document);
+
+		try {
+			let codes = await waitForDiagnostics(gitignoreUri, (diagnostics) => diagnostics.length > 0);
+			assert.deepStrictEqual(codes, ['normalizedDuplicate'], 'The normalized duplicate should be reported');
+
+			await editor.edit((builder) => builder.delete(document.lineAt(2).rangeIncludingLineBreak));
+			codes = await waitForDiagnostics(gitignoreUri, (diagnostics) => diagnostics.length === 0);
+			assert.deepStrictEqual(codes, [], 'Diagnostics should update before the file is saved');
+		} finally {
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
+
+	test('Fix all removes duplicates and replaces only flagged backslashes', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n!keep.log\n*.log\nbuild\\output\\bin\nliteral\\\\name\n*.log\n'));
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+		await vscode.window.showTextDocument(document);
+
+		try {
+			const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+				'vscode.executeCodeActionProvider',
+				gitignoreUri,
+				new vscode.Range(0, 0, document.lineCount, 0),
+				'source.fixAll.gitignoreAssistant'
+			);
+			const fixAll = actions?.find((action) => action.title === 'Fix all ignore file problems');
+			assert.ok(fixAll?.edit, 'A fix all action should be offered');
+			await vscode.workspace.applyEdit(fixAll.edit);
+			assert.deepStrictEqual(
+				document.getText().trim().split('\n'),
+				['.DS_Store', '!keep.log', '*.log', 'build/output/bin', 'literal\\\\name'],
+				'Duplicates should be removed and separators replaced, while escaped backslashes and the negation stay put'
+			);
+		} finally {
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
 
-		await vscode.commands.executeCommand('gitignore-assistant.cleanGitignore', nestedGitignore);
+	test('Fix all and quick fixes keep copies a negation depends on', async function () {
+		this.timeout(15000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await createFile(folder, 'fix-negation/keep.log');
+		await createFile(folder, 'fix-negation/build/out.js');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n*.log\n!keep.log\n*.log\n/build/\nbuild/\nbuild\\output\n'));
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+		await vscode.window.showTextDocument(document);
 
 		try {
-			await readGitignore(folder);
-			assert.fail('Root .gitignore should not be created when cleaning a non-root file.');
-		} catch (error) {
-			assert.ok(error instanceof vscode.FileSystemError, 'Expected FileSystemError when reading missing .gitignore');
-			if (error instanceof vscode.FileSystemError) {
-				assert.strictEqual(error.code, 'FileNotFound');
+			// Folder listings are refreshed by the file watcher, so the new files may take a moment to show up
+			let fixAll: vscode.CodeAction | undefined;
+			let titles: string[] = [];
+			for (let attempt = 0; attempt < 50; attempt += 1) {
+				const fixAllActions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+					'vscode.executeCodeActionProvider',
+					gitignoreUri,
+					new vscode.Range(0, 0, document.lineCount, 0),
+					'source.fixAll.gitignoreAssistant'
+				);
+				fixAll = fixAllActions?.find((action) => action.title === 'Fix all ignore file problems');
+				const lineActions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+					'vscode.executeCodeActionProvider',
+					gitignoreUri,
+					document.lineAt(5).range
+				);
+				titles = (lineActions ?? []).map((action) => action.title);
+				// Only the last line, holding the backslash, should be touched
+				const keepsCopies = !!fixAll?.edit?.entries().every(([, edits]) => edits.every((edit) => edit.range.start.line >= 6));
+				if (keepsCopies && !titles.includes('Remove duplicate entry')) {
+					break;
+				}
+				await new Promise((resolve) => setTimeout(resolve, 100));
 			}
+			assert.ok(!titles.includes('Remove duplicate entry'), 'Removing "build/" would stop ignoring "fix-negation/build/"');
+			assert.ok(fixAll?.edit, 'A fix all action should be offered');
+			await vscode.workspace.applyEdit(fixAll.edit);
+			assert.deepStrictEqual(
+				document.getText().trim().split('\n'),
+				['.DS_Store', '*.log', '!keep.log', '*.log', '/build/', 'build/', 'build/output'],
+				'Only the backslash should be replaced, since removing a copy changes which paths are ignored'
+			);
+		} finally {
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
+
+	test('Anchoring is only offered for unanchored literal names', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('build\n*.log\n/dist\n'));
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+
+		const anchorTitles = async (line: number) => {
+			const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+				'vscode.executeCodeActionProvider',
+				gitignoreUri,
+				document.lineAt(line).range
+			);
+			return (actions ?? []).map((action) => action.title).filter((title) => title.startsWith('Anchor'));
+		};
+		assert.deepStrictEqual(await anchorTitles(0), ['Anchor "build" to the ignore file folder']);
+		assert.deepStrictEqual(await anchorTitles(1), [], 'Anchoring a glob would change what it matches');
+		assert.deepStrictEqual(await anchorTitles(2), [], 'Anchored entries should not be anchored again');
+	});
+
+	test('Moving a negation is only offered when a later rule overrides it', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('!keep.log\n*.log\nvendor/\n!vendor/lib/\n'));
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+		await vscode.window.showTextDocument(document);
+
+		try {
+			await waitForDiagnostics(gitignoreUri, (diagnostics) => diagnostics.filter((diagnostic) => diagnostic.code === 'ineffectiveNegation').length === 2);
+			const titlesAt = async (line: number) => {
+				const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+					'vscode.executeCodeActionProvider',
+					gitignoreUri,
+					document.lineAt(line).range
+				);
+				return (actions ?? []).map((action) => action.title);
+			};
+			assert.ok((await titlesAt(0)).includes('Move negation below line 2'), 'An overridden negation should offer the move');
+			assert.ok(
+				!(await titlesAt(3)).some((title) => title.startsWith('Move negation')),
+				'A negation inside an excluded folder cannot be fixed by moving it'
+			);
+		} finally {
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		}
+	});
+
+	test('Links, hovers, and CodeLenses are only provided in ignore files', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		const notesUri = await createFile(folder, 'providers/notes.txt');
+		const content = '.DS_Store\n# Notes\n/providers/notes.txt\n';
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode(content));
+		await vscode.workspace.fs.writeFile(notesUri, textEncoder.encode(content));
+
+		const configuration = vscode.workspace.getConfiguration('gitignoreAssistant', folder.uri);
+		const inspectCodeLens = configuration.inspect<boolean>('showCodeLens');
+		await configuration.update('showCodeLens', true, vscode.ConfigurationTarget.WorkspaceFolder);
+
+		const provided = async (uri: vscode.Uri) => {
+			await vscode.workspace.openTextDocument(uri);
+			const position = new vscode.Position(2, 3);
+			return {
+				links: (await vscode.commands.executeCommand<vscode.DocumentLink[]>('vscode.executeLinkProvider', uri)) ?? [],
+				lenses: (await vscode.commands.executeCommand<vscode.CodeLens[]>('vscode.executeCodeLensProvider', uri)) ?? [],
+				hovers: (await vscode.commands.executeCommand<vscode.Hover[]>('vscode.executeHoverProvider', uri, position)) ?? []
+			};
+		};
+
+		try {
+			const inGitignore = await provided(gitignoreUri);
+			assert.ok(inGitignore.links.length && inGitignore.lenses.length && inGitignore.hovers.length, 'The .gitignore should get every feature');
+			const inNotes = await provided(notesUri);
+			assert.deepStrictEqual(
+				[inNotes.links.length, inNotes.lenses.length, inNotes.hovers.length],
+				[0, 0, 0],
+				'Other documents should get no links, lenses, or hovers'
+			);
+		} finally {
+			await configuration.update('showCodeLens', inspectCodeLens?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
 		}
 	});
 
+	test('Completion suggests workspace paths and flags ignored ones', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await createFile(folder, 'complete-me/debug.log');
+		await createFile(folder, 'complete-me/index.ts');
+		await createFile(folder, 'complete-me/a[1].txt');
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(folder.uri, 'complete-me', 'nested'));
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n*.log\ncomplete-me/\n'));
+		const document = await vscode.workspace.openTextDocument(gitignoreUri);
+
+		const list = await vscode.commands.executeCommand<vscode.CompletionList>(
+			'vscode.executeCompletionItemProvider',
+			gitignoreUri,
+			new vscode.Position(2, 'complete-me/'.length)
+		);
+		const items = new Map(list.items.map((item) => [typeof item.label === 'string' ? item.label : item.label.label, item]));
+		assert.strictEqual(items.get('nested/')?.insertText, '/complete-me/nested/', 'Folders should be anchored with a trailing slash');
+		assert.strictEqual(items.get('index.ts')?.insertText, '/complete-me/index.ts');
+		assert.strictEqual(items.get('a[1].txt')?.insertText, '/complete-me/a\\[1].txt', 'Glob characters in names should be escaped');
+		assert.ok(items.get('debug.log')?.detail?.includes('*.log'), 'Paths ignored by earlier rules should be flagged');
+		assert.ok(!items.get('index.ts')?.detail, 'Paths not ignored by earlier rules should not be flagged');
+		assert.ok(items.has('complete-me/*.log'), 'Extension globs should be suggested for the current folder');
+		assert.strictEqual(document.lineAt(2).text, 'complete-me/');
+	});
+
+	test('Literal entries link to existing files and folders', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		const fileUri = await createFile(folder, 'link-me/notes #1.txt');
+		await vscode.workspace.fs.writeFile(
+			gitignoreUri,
+			textEncoder.encode('/link-me/notes\\ \\#1.txt\n!/link-me/\n/link-me/missing.txt\n*.log\n')
+		);
+		await vscode.workspace.openTextDocument(gitignoreUri);
+
+		const links = await vscode.commands.executeCommand<vscode.DocumentLink[]>('vscode.executeLinkProvider', gitignoreUri);
+		const linesWithLinks = links.map((link) => link.range.start.line).sort();
+		assert.deepStrictEqual(linesWithLinks, [0, 1], 'Only existing literal entries should be linked');
+		const fileLink = links.find((link) => link.range.start.line === 0);
+		assert.strictEqual(fileLink?.target?.fsPath, fileUri.fsPath, 'Escaped entries should resolve to the file they name');
+		assert.strictEqual(links.find((link) => link.range.start.line === 1)?.range.start.character, 1, 'Negation marks should not be linked');
+	});
+
+	test('Hover shows matched paths, overriding lines, and base entries', async function () {
+		this.timeout(10000);
+		const folder = ensureWorkspace();
+		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
+		await createFile(folder, 'hover-me/first.tmp');
+		await createFile(folder, 'hover-me/second.tmp');
+		await vscode.workspace.fs.writeFile(gitignoreUri, textEncoder.encode('.DS_Store\n*.tmp\n!hover-me/second.tmp\n'));
+		await vscode.workspace.openTextDocument(gitignoreUri);
+
+		const hoverText = async (line: number) => {
+			const hovers = await vscode.commands.executeCommand<vscode.Hover[]>('vscode.executeHoverProvider', gitignoreUri, new vscode.Position(line, 1));
+			return hovers
+				.flatMap((hover) => hover.contents)
+				.map((content) => (typeof content === 'string' ? content : content.value))
+				.join('\n');
+		};
+
+		const patternHover = await hoverText(1);
+		assert.ok(patternHover.includes('Matches 2 files'), 'Glob entries should be evaluated against the workspace');
+		assert.ok(patternHover.includes('hover-me/first.tmp'), 'A sample of the matches should be listed');
+		assert.ok(patternHover.includes('Overridden by line 3'), 'Later lines deciding some matches should be reported');
+		assert.ok((await hoverText(0)).includes('gitignoreAssistant.baseEntries'), 'Base entries should be flagged');
+	});
+
 	test('Custom base entries configuration is enforced', async function () {
 		this.timeout(10000);
 		const folder = ensureWorkspace();
@@ -581,6 +1504,16 @@ suite('GitIgnore Assistant Extension', () => {
 		);
 	});
 
+	// Replaces a `vscode.window` method until the returned function is called, so modal prompts can be answered
+	function stubWindowMethod<K extends keyof typeof vscode.window>(name: K, replacement: (...args: any[]) => unknown): () => void {
+		const window = vscode.window as unknown as Record<string, unknown>;
+		const original = window[name];
+		window[name] = replacement;
+		return () => {
+			window[name] = original;
+		};
+	}
+
 	function ensureWorkspace(): vscode.WorkspaceFolder {
 		if (!workspaceFolder) {
 			throw new Error('Test workspace not initialized.');
@@ -602,6 +1535,29 @@ suite('GitIgnore Assistant Extension', () => {
 		return fileUri;
 	}
 
+	async function waitForPreviewTab(): Promise<vscode.Uri> {
+		for (let attempt = 0; attempt < 50; attempt += 1) {
+			for (const tab of vscode.window.tabGroups.all.flatMap((group) => group.tabs)) {
+				if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === 'gitignore-assistant-preview') {
+					return tab.input.modified;
+				}
+			}
+			await new Promise((resolve) => setTimeout(resolve, 100));
+		}
+		throw new Error('Preview was not opened');
+	}
+
+	async function waitForDiagnostics(
+		uri: vscode.Uri,
+		predicate: (diagnostics: vscode.Diagnostic[]) => boolean
+	): Promise<string[]> {
+		const own = () => vscode.languages.getDiagnostics(uri).filter((diagnostic) => diagnostic.source === 'GitIgnore Assistant');
+		for (let attempt = 0; attempt < 50 && !predicate(own()); attempt += 1) {
+			await new Promise((resolve) => setTimeout(resolve, 100));
+		}
+		return own().map((diagnostic) => String(diagnostic.code));
+	}
+
 	async function readGitignore(folder: vscode.WorkspaceFolder): Promise<string> {
 		const gitignoreUri = vscode.Uri.joinPath(folder.uri, '.gitignore');
 		const buffer = await vscode.workspace.fs.readFile(gitignoreUri);
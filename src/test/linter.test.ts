@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { findRedundantEntries, lintIgnoreLines, LintOptions } from '../linter';
+import { parseIgnoreRules } from '../matcher';
+
+const fixturePaths = [
+	'README.md',
+	'build/',
+	'logs/',
+	'logs/debug.log',
+	'src/',
+	'src/index.ts'
+];
+
+function lint(lines: string[], options: Partial<LintOptions> = {}) {
+	return lintIgnoreLines(lines, { source: '.gitignore', ...options }).map((issue) => ({
+		rule: issue.rule,
+		line: issue.line,
+		relatedLine: issue.relatedLine
+	}));
+}
+
+suite('Gitignore Linter', () => {
+	test('Exact and normalized duplicates are reported against the first occurrence', () => {
+		assert.deepStrictEqual(lint(['build/', '# comment', 'build/', '/build', '*.log', '*.log']), [
+			{ rule: 'duplicate', line: 2, relatedLine: 0 },
+			{ rule: 'normalizedDuplicate', line: 3, relatedLine: 0 },
+			{ rule: 'duplicate', line: 5, relatedLine: 4 }
+		]);
+	});
+
+	test('Copies separated by a rule of the opposite kind matching the same paths are not duplicates', () => {
+		assert.deepStrictEqual(lint(['*.log', '!keep.log', '*.log']), [{ rule: 'ineffectiveNegation', line: 1, relatedLine: 2 }]);
+		assert.deepStrictEqual(lint(['/build/', '!/build/', '/build']), [{ rule: 'ineffectiveNegation', line: 1, relatedLine: 2 }]);
+		assert.deepStrictEqual(lint(['!keep.log', '*.log', '!keep.log']), []);
+		assert.deepStrictEqual(
+			lint(['*.log', '!/src/', '*.log', '*.log']),
+			[{ rule: 'duplicate', line: 3, relatedLine: 2 }],
+			'Later copies are compared with the nearest separated one'
+		);
+		assert.deepStrictEqual(lint(['/dist/', '!keep.log', '/dist/']), [{ rule: 'duplicate', line: 2, relatedLine: 0 }], 'Negations that cannot match the entry are ignored');
+	});
+
+	test('Trailing whitespace is reported unless it is escaped', () => {
+		const issues = lintIgnoreLines(['name  ', 'escaped\\ ', 'mixed\\  ', '# comment  '], { source: '.gitignore' });
+		assert.deepStrictEqual(
+			issues.map((issue) => [issue.rule, issue.line, issue.start, issue.end]),
+			[
+				['trailingWhitespace', 0, 4, 6],
+				['trailingWhitespace', 2, 7, 8]
+			]
+		);
+	});
+
+	test('Backslash separators are reported but escapes are not', () => {
+		assert.deepStrictEqual(lint(['build\\output', '\\#hash', 'name\\ with\\ spaces', 'literal\\*']), [
+			{ rule: 'backslashSeparator', line: 0, relatedLine: undefined }
+		]);
+	});
+
+	test('Missing paths and unmatched patterns are checked against the file list', () => {
+		assert.deepStrictEqual(lint(['/build/', '/dist/', '*.log', '*.tmp', '.DS_Store'], { paths: fixturePaths, expectedEntries: ['.DS_Store'] }), [
+			{ rule: 'missingPath', line: 1, relatedLine: undefined },
+			{ rule: 'unmatchedPattern', line: 3, relatedLine: undefined }
+		]);
+		assert.deepStrictEqual(lint(['/dist/', '*.tmp']), [], 'Existence checks should be skipped without a file list');
+	});
+
+	test('Negations inside an excluded folder are ineffective', () => {
+		assert.deepStrictEqual(lint(['/logs/', '!/logs/keep.log', '/src/*', '!/src/index.ts']), [
+			{ rule: 'ineffectiveNegation', line: 1, relatedLine: 0 }
+		]);
+
+		const lowerPrecedenceRules = parseIgnoreRules(['build/'], { source: 'global' });
+		const nested = lint(['!output/keep.txt'], { basePath: 'build', lowerPrecedenceRules });
+		assert.deepStrictEqual(nested, [{ rule: 'ineffectiveNegation', line: 0, relatedLine: undefined }], 'Rules from other files should be considered');
+	});
+
+	test('Negations overridden by a later rule point to that rule', () => {
+		assert.deepStrictEqual(lint(['!keep.log', '*.log', 'build/']), [{ rule: 'ineffectiveNegation', line: 0, relatedLine: 1 }]);
+		assert.deepStrictEqual(lint(['*.log', '!keep.log']), []);
+		assert.deepStrictEqual(
+			lint(['!/logs/*.log', '*.log'], { paths: fixturePaths }),
+			[{ rule: 'ineffectiveNegation', line: 0, relatedLine: 1 }],
+			'Glob negations should be checked against the matching paths'
+		);
+	});
+
+	test('Entries covered by a broader rule are redundant', () => {
+		const redundant = (lines: string[], basePath = '') =>
+			findRedundantEntries(lines, { source: '.gitignore', basePath }).map((entry) => [entry.line, entry.coveredBy.line - 1]);
+
+		assert.deepStrictEqual(redundant(['/dist/', '/dist/app.js', '/dist/*.map', '*.log', '/logs/a.log']), [[1, 0], [2, 0], [4, 3]]);
+		assert.deepStrictEqual(redundant(['/node_modules/', 'node_modules/']), [[0, 1]], 'Only the anchored entry is covered');
+		assert.deepStrictEqual(redundant(['dist', 'dist/', '/dist']), [[1, 0], [2, 0]], 'Folder-only entries are covered by entries matching files too');
+		assert.deepStrictEqual(redundant(['/build/', '/build/']), [[1, 0]], 'Of two identical entries only the later one is reported');
+		assert.deepStrictEqual(redundant(['/out', '*.js', 'app.js']), [[2, 1]]);
+		assert.deepStrictEqual(redundant(['/src/', 'src/index.ts'], 'pkg'), [[1, 0]], 'Nested ignore files should be handled');
+	});
+
+	test('Negations keep entries that would otherwise look redundant', () => {
+		const redundant = (lines: string[]) => findRedundantEntries(lines, { source: '.gitignore' }).map((entry) => entry.line);
+
+		assert.deepStrictEqual(redundant(['*.log', '!/logs/a.log', '/logs/a.log']), []);
+		assert.deepStrictEqual(redundant(['/dist/', '!/dist/', '/dist/app.js']), [], 'Re-including the parent folder makes the entry needed');
+		assert.deepStrictEqual(redundant(['*.log', '!keep.log', '/logs/a.log']), [2], 'Negations that cannot match the entry are ignored');
+		assert.deepStrictEqual(redundant(['!keep.log', '*.log', '/logs/a.log']), [2], 'Negations above both rules do not matter');
+		assert.deepStrictEqual(
+			lint(['*.log', '/logs/a.log', '/logs/a.log'], { expectedEntries: [] }),
+			[
+				{ rule: 'redundantEntry', line: 1, relatedLine: 0 },
+				{ rule: 'duplicate', line: 2, relatedLine: 1 }
+			],
+			'Duplicates are only reported once'
+		);
+		assert.deepStrictEqual(lint(['/build/', '/build']), [{ rule: 'normalizedDuplicate', line: 1, relatedLine: 0 }]);
+	});
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { checkIgnored, escapeLiteralPath, hasGlobSyntax, listIgnoredPaths, parseIgnoreRule, parseIgnoreRules } from '../matcher';
+
+const fixtureTree = [
+	'.env',
+	'README.md',
+	'build/app.js',
+	'build/assets/logo.png',
+	'config/app.example.json',
+	'config/app.json',
+	'docs/build/index.md',
+	'logs/debug.log',
+	'logs/keep.log',
+	'packages/web/build/bundle.js',
+	'packages/web/src/index.ts',
+	'src/build',
+	'src/cache/a.tmp',
+	'src/deep/cache/b.tmp',
+	'src/index.ts',
+	'src/file1.ts',
+	'src/fileA.ts'
+];
+
+// Collapses the contents of ignored directories, like `git status --ignored`
+function ignored(lines: string[], tree: string[] = fixtureTree): string[] {
+	const paths = listIgnoredPaths(parseIgnoreRules(lines, { source: '.gitignore' }), tree);
+	return paths.filter((candidate) => !paths.some((other) => other.endsWith('/') && other !== candidate && candidate.startsWith(other)));
+}
+
+suite('Gitignore Matcher', () => {
+	test('Blank lines, comments, and escaped characters are parsed like git', () => {
+		assert.strictEqual(parseIgnoreRule('', { source: 'x', line: 1 }), undefined);
+		assert.strictEqual(parseIgnoreRule('# comment', { source: 'x', line: 1 }), undefined);
+		assert.strictEqual(parseIgnoreRule('   ', { source: 'x', line: 1 }), undefined);
+
+		const hash = parseIgnoreRule('\\#file', { source: 'x', line: 1 });
+		assert.ok(hash && hash.regex.test('#file'), 'Escaped hash should match a literal #');
+
+		const bang = parseIgnoreRule('\\!important', { source: 'x', line: 1 });
+		assert.ok(bang && !bang.negated && bang.regex.test('!important'), 'Escaped bang should not negate');
+
+		const trailing = parseIgnoreRule('name   ', { source: 'x', line: 1 });
+		assert.strictEqual(trailing?.pattern, 'name', 'Unescaped trailing spaces should be trimmed');
+
+		const escapedSpace = parseIgnoreRule('name\\ ', { source: 'x', line: 1 });
+		assert.ok(escapedSpace && escapedSpace.regex.test('name '), 'Escaped trailing space should be kept');
+	});
+
+	test('Patterns without a slash match at any depth', () => {
+		assert.deepStrictEqual(ignored(['build']), ['build/', 'docs/build/', 'packages/web/build/', 'src/build']);
+	});
+
+	test('Leading and middle slashes anchor the pattern', () => {
+		assert.deepStrictEqual(ignored(['/build']), ['build/']);
+		assert.deepStrictEqual(ignored(['web/build']), []);
+		assert.deepStrictEqual(ignored(['packages/web/build']), ['packages/web/build/']);
+	});
+
+	test('Trailing slash only matches directories', () => {
+		assert.deepStrictEqual(ignored(['build/']), ['build/', 'docs/build/', 'packages/web/build/']);
+	});
+
+	test('Double asterisks match across directories', () => {
+		assert.deepStrictEqual(ignored(['**/cache/*.tmp']), ['src/cache/a.tmp', 'src/deep/cache/b.tmp']);
+		assert.deepStrictEqual(ignored(['src/**/b.tmp']), ['src/deep/cache/b.tmp']);
+		assert.deepStrictEqual(ignored(['logs/**']), ['logs/debug.log', 'logs/keep.log']);
+		assert.deepStrictEqual(ignored(['**/build/']), ['build/', 'docs/build/', 'packages/web/build/']);
+	});
+
+	test('Single asterisks and question marks do not cross slashes', () => {
+		assert.deepStrictEqual(ignored(['/src/*.ts']), ['src/file1.ts', 'src/fileA.ts', 'src/index.ts']);
+		assert.deepStrictEqual(ignored(['/*.ts']), []);
+		assert.deepStrictEqual(ignored(['src/file?.ts']), ['src/file1.ts', 'src/fileA.ts']);
+	});
+
+	test('Character classes support ranges, negation, and POSIX names', () => {
+		assert.deepStrictEqual(ignored(['src/file[0-9].ts']), ['src/file1.ts']);
+		assert.deepStrictEqual(ignored(['src/file[!0-9].ts']), ['src/fileA.ts']);
+		assert.deepStrictEqual(ignored(['src/file[[:upper:]].ts']), ['src/fileA.ts']);
+		assert.deepStrictEqual(ignored(['src/file[0-9']), [], 'Unterminated classes should never match');
+	});
+
+	test('Negations re-include paths and the last match wins', () => {
+		assert.deepStrictEqual(ignored(['*.log', '!keep.log']), ['logs/debug.log']);
+		assert.deepStrictEqual(ignored(['!keep.log', '*.log']), ['logs/debug.log', 'logs/keep.log']);
+		assert.deepStrictEqual(ignored(['/config/*', '!/config/*.example.json']), ['config/app.json']);
+	});
+
+	test('Files cannot be re-included when a parent directory is excluded', () => {
+		const rules = parseIgnoreRules(['/logs/', '!/logs/keep.log'], { source: '.gitignore' });
+		assert.deepStrictEqual(listIgnoredPaths(rules, fixtureTree), ['logs/', 'logs/debug.log', 'logs/keep.log']);
+
+		const result = checkIgnored(rules, 'logs/keep.log', false);
+		assert.strictEqual(result.ignored, true);
+		assert.strictEqual(result.excludedParent, 'logs');
+		assert.strictEqual(result.rule?.pattern, '/logs/');
+		assert.strictEqual(result.rule?.line, 1);
+
+		const reincluded = checkIgnored(parseIgnoreRules(['/logs/*', '!/logs/keep.log'], { source: '.gitignore' }), 'logs/keep.log', false);
+		assert.strictEqual(reincluded.ignored, false);
+		assert.strictEqual(reincluded.rule?.line, 2, 'The re-including negation should be reported');
+	});
+
+	test('Nested rules are relative to their directory and take precedence', () => {
+		const rules = [
+			...parseIgnoreRules(['*.js'], { source: '.gitignore' }),
+			...parseIgnoreRules(['!/build/bundle.js', '/src/'], { source: 'packages/web/.gitignore', basePath: 'packages/web' })
+		];
+		assert.deepStrictEqual(listIgnoredPaths(rules, fixtureTree), ['build/app.js', 'packages/web/src/', 'packages/web/src/index.ts']);
+
+		const nested = checkIgnored(rules, 'packages/web/src/index.ts', false);
+		assert.strictEqual(nested.rule?.source, 'packages/web/.gitignore');
+		assert.strictEqual(checkIgnored(rules, 'src/index.ts', false).ignored, false, 'Nested rules should not apply outside their directory');
+	});
+
+	test('Glob syntax detection honours escapes', () => {
+		assert.ok(hasGlobSyntax('*.log'));
+		assert.ok(hasGlobSyntax('file[0-9]'));
+		assert.ok(!hasGlobSyntax('/node_modules/'));
+		assert.ok(!hasGlobSyntax('literal\\*star'));
+	});
+
+	test('Escaped literal paths only match the path they name', () => {
+		const names = ['a[1].txt', 'a1.txt', 'what?.md', 'whatX.md', 'star*.js', 'starry.js', '#notes', '!bang', 'two words'];
+		for (const name of names) {
+			const escaped = escapeLiteralPath(name);
+			assert.ok(!hasGlobSyntax(escaped), `"${escaped}" should have no glob syntax`);
+			assert.deepStrictEqual(ignored([`/${escaped}`], names), [name], `"${escaped}" should only match "${name}"`);
+		}
+	});
+});
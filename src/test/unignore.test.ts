@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { checkIgnored, parseIgnoreRules } from '../matcher';
+import { planUnignore, UnignoreOptions } from '../unignore';
+
+function plan(lines: string[], relativePath: string, isDirectory = false, options: Partial<UnignoreOptions> = {}) {
+	return planUnignore(lines, relativePath, isDirectory, { source: '.gitignore', ...options });
+}
+
+function assertTracked(lines: string[], relativePath: string, basePath = '') {
+	const rules = parseIgnoreRules(lines, { source: '.gitignore', basePath });
+	assert.strictEqual(checkIgnored(rules, relativePath, false).ignored, false, `"${relativePath}" should be tracked with:\n${lines.join('\n')}`);
+}
+
+suite('Unignore Planner', () => {
+	test('Paths matched by a broader pattern get a single negation', () => {
+		const result = plan(['*.example', 'build/'], 'config/app.example');
+		assert.ok(result.ok);
+		assert.deepStrictEqual(result.lines, ['*.example', 'build/', '!/config/app.example']);
+		assertTracked(result.lines, 'config/app.example');
+	});
+
+	test('Anchored folder rules are rewritten to exclude their contents', () => {
+		const result = plan(['/config/'], 'config/app.example');
+		assert.ok(result.ok);
+		assert.deepStrictEqual(result.lines, ['/config/*', '!/config/app.example']);
+		assert.deepStrictEqual(result.changes.map((change) => change.action), ['rewrite', 'add']);
+		assertTracked(result.lines, 'config/app.example');
+	});
+
+	test('Intermediate folders get re-inclusion chains', () => {
+		const result = plan(['/config/'], 'config/env/local.example');
+		assert.ok(result.ok);
+		assert.deepStrictEqual(result.lines, ['/config/*', '!/config/env/', '/config/env/*', '!/config/env/local.example']);
+		assertTracked(result.lines, 'config/env/local.example');
+
+		const broad = plan(['config/'], 'config/app.example');
+		assert.ok(broad.ok);
+		assert.deepStrictEqual(
+			broad.lines,
+			['config/', '!/config/', '/config/*', '!/config/app.example'],
+			'Unanchored rules should be kept, since they also match folders elsewhere'
+		);
+		assertTracked(broad.lines, 'config/app.example');
+	});
+
+	test('Entries naming the path itself are removed', () => {
+		const result = plan(['/notes.txt', '*.log'], 'notes.txt');
+		assert.ok(result.ok);
+		assert.deepStrictEqual(result.lines, ['*.log']);
+	});
+
+	test('Special characters are escaped and nested files resolve relative paths', () => {
+		const result = plan(['*'], 'pkg/data/#1 [draft].txt', false, { basePath: 'pkg' });
+		assert.ok(result.ok);
+		assert.deepStrictEqual(result.lines, ['*', '!/data/', '/data/*', '!/data/\\#1\\ \\[draft].txt']);
+		assertTracked(result.lines, 'pkg/data/#1 [draft].txt', 'pkg');
+	});
+
+	test('Rules from files taking precedence cannot be overridden', () => {
+		const higherPrecedenceRules = parseIgnoreRules(['*.example'], { source: 'config/.gitignore', basePath: 'config' });
+		const result = plan([], 'config/app.example', false, { higherPrecedenceRules });
+		assert.strictEqual(result.ok, false);
+
+		const lowerPrecedenceRules = parseIgnoreRules(['config/'], { source: 'info/exclude' });
+		const fromExclude = plan([], 'config/app.example', false, { lowerPrecedenceRules });
+		assert.ok(fromExclude.ok, 'Rules from files with lower precedence can be overridden');
+		assert.deepStrictEqual(fromExclude.lines, ['!/config/', '/config/*', '!/config/app.example']);
+	});
+});
@@ -0,0 +1,105 @@
+// Plans the smallest change to an ignore file that makes Git track a path again.
+// Every step is checked with the matcher, so a plan is only returned once the path is really re-included.
+
+import { checkIgnored, escapeLiteralPath, hasGlobSyntax, IgnoreRule, parseIgnoreRules } from './matcher';
+
+export interface UnignoreOptions {
+	// Identifier of the edited file, used as the rule source
+	source: string;
+	// Directory of the edited file relative to the repository root, '' for the root
+	basePath?: string;
+	// Rules from the other ignore files of the repository, by precedence relative to the edited file
+	lowerPrecedenceRules?: IgnoreRule[];
+	higherPrecedenceRules?: IgnoreRule[];
+}
+
+export interface UnignoreChange {
+	action: 'add' | 'rewrite' | 'remove';
+	// Line written, or the line removed
+	entry: string;
+	// For rewrites, the line replaced
+	previous?: string;
+}
+
+export type UnignorePlan =
+	| {
+		ok: true;
+		lines: string[];
+		// In the order they were planned
+		changes: UnignoreChange[];
+	}
+	| {
+		ok: false;
+		reason: string;
+		// Rule that could not be overridden from the edited file
+		rule?: IgnoreRule;
+	};
+
+export function planUnignore(lines: string[], relativePath: string, isDirectory: boolean, options: UnignoreOptions): UnignorePlan {
+	const basePath = options.basePath ?? '';
+	const target = relativePath.replace(/^\/+/, '').replace(/\/+$/, '');
+	const higher = new Set(options.higherPrecedenceRules ?? []);
+	const planned = [...lines];
+	const changes: UnignoreChange[] = [];
+
+	// Each step re-includes one more level, so the depth of the path bounds the number of steps
+	const maxSteps = target.split('/').length * 2 + 1;
+	for (let step = 0; step <= maxSteps; step += 1) {
+		const ownRules = parseIgnoreRules(planned, { source: options.source, basePath });
+		const rules = [...(options.lowerPrecedenceRules ?? []), ...ownRules, ...(options.higherPrecedenceRules ?? [])];
+		const result = checkIgnored(rules, target, isDirectory);
+		if (!result.ignored || !result.rule) {
+			return { ok: true, lines: planned, changes };
+		}
+
+		const rule = result.rule;
+		if (higher.has(rule)) {
+			return { ok: false, reason: `"${rule.pattern}" is in an ignore file that takes precedence over this one.`, rule };
+		}
+
+		const blocked = result.excludedParent ?? target;
+		const relative = toBaseRelative(blocked, basePath);
+		if (relative === undefined) {
+			return { ok: false, reason: `"${blocked}" is outside the folder of this ignore file.`, rule };
+		}
+
+		const isOwnRule = rule.source === options.source;
+		const literal = isOwnRule && rule.anchored && !rule.negated && !hasGlobSyntax(rule.pattern)
+			? rule.pattern.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\\(.)/g, '$1')
+			: undefined;
+
+		if (result.excludedParent) {
+			if (literal === relative) {
+				// An anchored rule naming the folder itself can exclude its contents instead
+				const rewritten = `${rule.pattern.replace(/\/+$/, '')}/*`;
+				planned[rule.line - 1] = rewritten;
+				changes.push({ action: 'rewrite', entry: rewritten, previous: rule.pattern });
+			} else {
+				// Broader rules stay untouched: re-include the folder, then exclude its contents again
+				const entry = `/${escapeLiteralPath(relative)}`;
+				planned.push(`!${entry}/`, `${entry}/*`);
+				changes.push({ action: 'add', entry: `!${entry}/` }, { action: 'add', entry: `${entry}/*` });
+			}
+			continue;
+		}
+
+		if (literal === relative) {
+			// The path is listed on its own, so dropping the line is enough
+			planned.splice(rule.line - 1, 1);
+			changes.push({ action: 'remove', entry: rule.pattern });
+			continue;
+		}
+		const negation = `!/${escapeLiteralPath(relative)}${isDirectory ? '/' : ''}`;
+		planned.push(negation);
+		changes.push({ action: 'add', entry: negation });
+	}
+
+	return { ok: false, reason: 'The path is still ignored after re-including every parent folder.' };
+}
+
+function toBaseRelative(relativePath: string, basePath: string): string | undefined {
+	if (!basePath) {
+		return relativePath;
+	}
+	return relativePath.startsWith(`${basePath}/`) ? relativePath.slice(basePath.length + 1) : undefined;
+}